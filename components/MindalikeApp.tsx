@@ -2,9 +2,24 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import Image from 'next/image';
-import { MiniKit, VerificationLevel } from '@worldcoin/minikit-js';
+import { MiniKit, VerificationLevel, type TokensPayload } from '@worldcoin/minikit-js';
 import { Button } from './ui/Button';
 import { Card } from './ui/Card';
+import {
+  CLOSE_CODES,
+  encodeMessage,
+  MAX_GROUP_SIZE,
+  MIN_GROUP_SIZE,
+  parseServerMessage,
+  PROTOCOL_VERSION,
+  PROTOCOL_VERSION_PARAM,
+  type CreditBalance,
+  type ErrorCode,
+  type EventStatusPayload,
+  type MatchTier,
+  type ServerMessage,
+  type SharedAnswer,
+} from '../lib/protocol';
 
 // App states
 type AppState =
@@ -12,9 +27,11 @@ type AppState =
   | 'authenticating'
   | 'verifying'
   | 'verified'
+  | 'quiz'
   | 'queuing'
   | 'matching'
   | 'matched'
+  | 'group_matched'
   | 'payment_required'
   | 'error';
 
@@ -25,88 +42,319 @@ interface UserData {
   isVerified: boolean;
 }
 
+// Where a pseudonymous match stands: choosing, waiting on the partner,
+// usernames revealed, or over without a connection
+type MatchStatus = 'deciding' | 'waiting' | 'revealed' | 'closed';
+
 // Match data interface
 interface MatchData {
-  matchedUsername: string;
+  matchId: number | null;
+  // Ephemeral handle the partner is shown as until both connect
+  handle: string;
+  matchedUsername: string | null;
+  status: MatchStatus;
+  decisionExpiresAt: number;
+  matchedAt: number;
+  sharedInterests: string[];
+  compatibility: number | null;
+  sharedAnswers: SharedAnswer[];
+}
+
+// Group room as announced by group_matched
+interface GroupData {
+  roomId: string;
+  // Usernames of the other members
+  members: string[];
+  sharedInterests: string[];
+}
+
+// Group sizes offered when joining the queue; null is one-on-one
+const GROUP_SIZES = Array.from({ length: MAX_GROUP_SIZE - MIN_GROUP_SIZE + 1 }, (_, i) => MIN_GROUP_SIZE + i);
+
+// Compatibility quiz as served by /api/quiz
+interface QuizQuestion {
+  id: number;
+  prompt: string;
+  kind: 'choice' | 'scale';
+  options: string[];
+}
+
+interface Quiz {
+  id: number;
+  title: string;
+  questions: QuizQuestion[];
+}
+
+// Past match as served by /api/matches/history
+interface PastMatch {
+  id: number;
+  partnerUsername: string | null;
+  partnerHandle: string | null;
+  compatibility: number | null;
   matchedAt: number;
 }
 
-// WebSocket message types
-interface WSMessage {
-  type: 'join_queue' | 'leave_queue' | 'matched' | 'error' | 'queue_status' | 'heartbeat';
-  payload?: unknown;
+// Report categories accepted by /api/reports
+const REPORT_REASONS: { value: string; label: string }[] = [
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'spam', label: 'Spam or scam' },
+  { value: 'inappropriate', label: 'Inappropriate' },
+  { value: 'impersonation', label: 'Impersonation' },
+  { value: 'underage', label: 'Underage' },
+  { value: 'other', label: 'Other' },
+];
+
+// Matching language from the server catalog; picks the queue shard
+interface Language {
+  code: string;
+  label: string;
+}
+
+// Interest tag from the server catalog
+interface InterestTag {
+  slug: string;
+  label: string;
+}
+
+// Live numbers about the user's queue shard, from queue_status
+interface QueueStats {
+  estimatedWaitSeconds: number | null;
+  online: number;
+  matchedLastHour: number;
+}
+
+// Scheduled matching event as served by /api/events
+interface UpcomingEvent {
+  id: number;
+  title: string;
+  description: string | null;
+  startsAt: number;
+  endsAt: number;
+  roundMinutes: number;
+  status: 'scheduled' | 'open' | 'closed';
+}
+
+// Payment intent as built by /api/payments/create, ready for MiniKit's pay
+interface PaymentIntent {
+  reference: string;
+  product_id: string;
+  to: string;
+  tokens: TokensPayload[];
+  description: string;
+  expires_at: number;
+}
+
+// Match pack or unlimited pass on sale, as served by /api/products
+interface Product {
+  id: string;
+  kind: 'pack' | 'pass';
+  title: string;
+  matches: number;
+  passHours: number | null;
+  prices: { symbol: string; amount: string }[];
+  // Set while a promo runs
+  regularPrices: { symbol: string; amount: string }[] | null;
+  promoEndsAt: number | null;
 }
 
+// Token symbols as people know them
+const TOKEN_LABELS: Record<string, string> = { WLD: 'WLD', USDCE: 'USDC' };
+
+function formatPrices(prices: { symbol: string; amount: string }[]): string {
+  return prices.map((price) => `${price.amount} ${TOKEN_LABELS[price.symbol] ?? price.symbol}`).join(' or ');
+}
+
+// How long before the session expires it is refreshed
+const SESSION_REFRESH_MARGIN_MS = 60 * 60 * 1000;
+
+// A payment whose transaction isn't mined yet is verified again this often,
+// up to this many times
+const PAYMENT_VERIFY_INTERVAL_MS = 3000;
+const PAYMENT_VERIFY_ATTEMPTS = 20;
+
+// Errors the socket survives; anything else ends the session
+const RECOVERABLE_ERRORS: ErrorCode[] = ['invalid_message', 'unknown_message_type'];
+
 export default function MindalikeApp() {
   // State management
   const [appState, setAppState] = useState<AppState>('landing');
   const [user, setUser] = useState<UserData | null>(null);
+  // When the server session ends unless refreshed
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
   const [match, setMatch] = useState<MatchData | null>(null);
+  const [group, setGroup] = useState<GroupData | null>(null);
+  const [groupSize, setGroupSize] = useState<number | null>(null);
+  const [groupMatchCost, setGroupMatchCost] = useState<number>(2);
   const [error, setError] = useState<string | null>(null);
   const [queuePosition, setQueuePosition] = useState<number>(0);
   const [countdown, setCountdown] = useState<number>(5);
-  const [dailyMatches, setDailyMatches] = useState<number>(0);
-  const freeLimit = 5;
-  const remainingFree = Math.max(0, freeLimit - dailyMatches);
+  const [credits, setCredits] = useState<CreditBalance>({ free: 5, purchased: 0 });
+  // Free matches per day, as the server reports it
+  const [freeLimit, setFreeLimit] = useState<number>(5);
+  // End of the running unlimited pass, if any
+  const [passExpiresAt, setPassExpiresAt] = useState<number | null>(null);
+  const [interestCatalog, setInterestCatalog] = useState<InterestTag[]>([]);
+  const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
+  const [maxInterests, setMaxInterests] = useState<number>(5);
+  const [matchTier, setMatchTier] = useState<MatchTier>('strong');
+  const [queueStats, setQueueStats] = useState<QueueStats | null>(null);
+  const [eventStatus, setEventStatus] = useState<EventStatusPayload | null>(null);
+  const [languageCatalog, setLanguageCatalog] = useState<Language[]>([]);
+  const [language, setLanguage] = useState<string | null>(null);
 
   // WebSocket ref
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Resume token for our place in the queue (or undecided match) while
+  // the server holds it; `inMatch` once a match was handed out
+  const resumeRef = useRef<{ token: string; inMatch: boolean } | null>(null);
+  // Scheduled event we joined, so reconnects go back to its queue
+  const eventRef = useRef<number | null>(null);
+  // Set once a shard sent us on to the global pool, so reconnects stay there
+  const poolRef = useRef<'global' | null>(null);
+  // What our last join_queue asked for, to ask again if a resume fails
+  const joinPayloadRef = useRef<{ interests: string[]; groupSize?: number } | null>(null);
 
   // Handle WebSocket messages
-  const handleWSMessage = useCallback((message: WSMessage) => {
+  const handleWSMessage = useCallback((message: ServerMessage) => {
     switch (message.type) {
+      case 'resume_token':
+        resumeRef.current = { token: message.payload.token, inMatch: false };
+        break;
+
+      case 'queue_resumed':
+        setError(null);
+        break;
+
+      case 'resume_failed':
+        // The server let our place go; an open match is over, otherwise
+        // start again at the back of the queue
+        const wasInMatch = resumeRef.current?.inMatch ?? false;
+        resumeRef.current = null;
+        if (wasInMatch) {
+          setMatch((prev) => prev && { ...prev, status: 'closed' });
+        } else {
+          wsRef.current?.send(encodeMessage({ type: 'join_queue', payload: joinPayloadRef.current ?? undefined }));
+        }
+        break;
+
       case 'queue_status':
-        const statusPayload = message.payload as { position: number; total: number };
+        const statusPayload = message.payload;
         setQueuePosition(statusPayload.position);
+        setMatchTier(statusPayload.tier);
+        setQueueStats({
+          estimatedWaitSeconds: statusPayload.estimatedWaitSeconds,
+          online: statusPayload.online,
+          matchedLastHour: statusPayload.matchedLastHour,
+        });
+        break;
+
+      case 'match_proposed':
+        // Ready-check: answering proves this socket is alive before the
+        // server commits the pair
+        wsRef.current?.send(encodeMessage({ type: 'match_ack', payload: { proposalId: message.payload.proposalId } }));
+        break;
+
+      case 'ready_check_missed':
+        resumeRef.current = null;
+        wsRef.current?.close();
+        setError(message.payload.message);
+        setAppState('error');
         break;
 
       case 'matched':
-        const matchPayload = message.payload as { matchedUsername: string };
+        const matchPayload = message.payload;
+        if (resumeRef.current) {
+          resumeRef.current.inMatch = true;
+        }
         setMatch({
-          matchedUsername: matchPayload.matchedUsername,
+          matchId: matchPayload.matchId,
+          handle: matchPayload.handle,
+          matchedUsername: null,
+          status: 'deciding',
+          decisionExpiresAt: matchPayload.decisionExpiresAt,
           matchedAt: Date.now(),
+          sharedInterests: matchPayload.sharedInterests,
+          compatibility: matchPayload.compatibility,
+          sharedAnswers: matchPayload.sharedAnswers,
         });
         setAppState('matched');
-        startRedirectCountdown(matchPayload.matchedUsername);
-
-        // Increment daily matches count in backend (best-effort)
-        if (user?.walletAddress) {
-          fetch('/api/matches/increment', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ wallet_address: user.walletAddress }),
-          })
-            .then((res) => res.json() as Promise<{ count?: number }>)
-            .then((data) => {
-              if (typeof data.count === 'number') {
-                setDailyMatches(data.count);
-              } else {
-                setDailyMatches((prev) => prev + 1);
-              }
-            })
-            .catch(() => {
-              setDailyMatches((prev) => prev + 1);
-            });
-        } else {
-          setDailyMatches((prev) => prev + 1);
-        }
+
+        // The server consumes the match when pairing and reports the new balance
+        setCredits(matchPayload.credits);
+        setPassExpiresAt(matchPayload.passExpiresAt);
+        break;
+
+      case 'group_matched':
+        // Group rooms skip the pseudonymous phase: everyone is named
+        const groupPayload = message.payload;
+        resumeRef.current = null;
+        setGroup({
+          roomId: groupPayload.roomId,
+          members: groupPayload.members,
+          sharedInterests: groupPayload.sharedInterests,
+        });
+        setCredits(groupPayload.credits);
+        setPassExpiresAt(groupPayload.passExpiresAt);
+        setAppState('group_matched');
+        break;
+
+      case 'match_revealed':
+        // Both chose to connect: only now is the partner's username known
+        const { matchedUsername } = message.payload;
+        resumeRef.current = null;
+        setMatch((prev) => prev && { ...prev, matchedUsername, status: 'revealed' });
+        startRedirectCountdown(matchedUsername);
+        break;
+
+      case 'match_closed':
+        resumeRef.current = null;
+        setMatch((prev) => prev && { ...prev, status: 'closed' });
+        break;
+
+      case 'quota_exhausted':
+        resumeRef.current = null;
+        setCredits(message.payload.credits);
+        setPassExpiresAt(null);
+        wsRef.current?.close();
+        setAppState('payment_required');
         break;
 
       case 'error':
-        const errorPayload = message.payload as { message: string };
-        setError(errorPayload.message);
+        const errorPayload = message.payload;
+        if (RECOVERABLE_ERRORS.includes(errorPayload.code)) {
+          console.error('Matching server rejected a message:', errorPayload.code);
+          break;
+        }
+        resumeRef.current = null;
+        if (errorPayload.code === 'banned' && errorPayload.expiresAt) {
+          setError(`${errorPayload.message} until ${new Date(errorPayload.expiresAt).toLocaleString()}.`);
+        } else {
+          setError(errorPayload.message);
+        }
         setAppState('error');
         break;
 
+      case 'event_status':
+        setEventStatus(message.payload);
+        break;
+
+      case 'event_closed':
+        // Someone still looking at a match keeps it; waiting users go back
+        eventRef.current = null;
+        resumeRef.current = null;
+        setEventStatus(null);
+        setAppState((prev) => (prev === 'queuing' || prev === 'matching' ? 'verified' : prev));
+        break;
+
       case 'heartbeat':
-        wsRef.current?.send(JSON.stringify({ type: 'heartbeat' }));
+        wsRef.current?.send(encodeMessage({ type: 'heartbeat' }));
         break;
     }
   }, []);
 
   // WebSocket connection handler
-  const connectWebSocket = useCallback((username: string) => {
+  const connectWebSocket = useCallback(() => {
     if (wsRef.current) {
       wsRef.current.close();
     }
@@ -116,36 +364,89 @@ export default function MindalikeApp() {
     const wsUrl = `${protocol}//${host}`;
     
     try {
-      // Include wallet address for verification check
-      const walletParam = user?.walletAddress ? `&wallet=${encodeURIComponent(user.walletAddress)}` : '';
-      const ws = new WebSocket(`${wsUrl}/ws?username=${encodeURIComponent(username)}${walletParam}`);
+      // Identity is taken from the session cookie sent with the upgrade
+      const params = new URLSearchParams({ [PROTOCOL_VERSION_PARAM]: String(PROTOCOL_VERSION) });
+      if (eventRef.current !== null) {
+        params.set('event', String(eventRef.current));
+      } else if (poolRef.current) {
+        params.set('pool', poolRef.current);
+      }
+      const ws = new WebSocket(`${wsUrl}/ws?${params}`);
       wsRef.current = ws;
 
       ws.onopen = () => {
         console.log('WebSocket connected');
-        ws.send(JSON.stringify({ type: 'join_queue', payload: { username } }));
+        // After a dropped connection, take our held place back instead of rejoining
+        if (resumeRef.current) {
+          ws.send(encodeMessage({ type: 'resume_queue', payload: { token: resumeRef.current.token } }));
+          return;
+        }
+        const payload = { interests: selectedInterests, groupSize: groupSize ?? undefined };
+        joinPayloadRef.current = payload;
+        ws.send(encodeMessage({ type: 'join_queue', payload }));
         setAppState('matching');
       };
 
       ws.onmessage = (event) => {
-        try {
-          const message: WSMessage = JSON.parse(event.data);
-          handleWSMessage(message);
-        } catch (e) {
-          console.error('Failed to parse WebSocket message:', e);
+        const message = parseServerMessage(event.data);
+        if (!message) {
+          console.error('Ignoring malformed WebSocket message');
+          return;
         }
+        handleWSMessage(message);
       };
 
       ws.onerror = () => {
+        // onclose reconnects and resumes
+        if (resumeRef.current) {
+          return;
+        }
         setError('Connection error. Please try again.');
         setAppState('error');
       };
 
-      ws.onclose = () => {
-        if (appState === 'matching') {
+      ws.onclose = (event) => {
+        // A socket we replaced ourselves
+        if (wsRef.current !== ws) {
+          return;
+        }
+        // Replaced by a newer connection of the same user, don't fight it;
+        // banned or outdated, reconnecting won't help
+        if (
+          event.code === CLOSE_CODES.SESSION_REPLACED ||
+          event.code === CLOSE_CODES.BANNED ||
+          event.code === CLOSE_CODES.UNSUPPORTED_VERSION
+        ) {
+          resumeRef.current = null;
+          return;
+        }
+        // Signed out or expired; the error message already said so
+        if (event.code === CLOSE_CODES.SESSION_EXPIRED) {
+          resumeRef.current = null;
+          setUser(null);
+          setSessionExpiresAt(null);
+          return;
+        }
+        // The event is over (or never opened); event_closed or the error
+        // message already said so
+        if (event.code === CLOSE_CODES.EVENT_CLOSED) {
+          resumeRef.current = null;
+          eventRef.current = null;
+          return;
+        }
+        // Nobody in our language/region shard, keep waiting in the global pool
+        if (event.code === CLOSE_CODES.QUEUE_FALLBACK) {
+          resumeRef.current = null;
+          poolRef.current = 'global';
+          connectWebSocket();
+          return;
+        }
+        // The server holds our place for a short while; reconnect to the
+        // same pool or event to resume it
+        if (resumeRef.current || appState === 'matching') {
           reconnectTimeoutRef.current = setTimeout(() => {
             if (user?.username) {
-              connectWebSocket(user.username);
+              connectWebSocket();
             }
           }, 3000);
         }
@@ -155,7 +456,7 @@ export default function MindalikeApp() {
       setError('Failed to connect to matching service.');
       setAppState('error');
     }
-  }, [appState, user?.username, handleWSMessage]);
+  }, [appState, user?.username, selectedInterests, groupSize, handleWSMessage]);
 
   // Countdown and redirect to World Chat
   const startRedirectCountdown = useCallback((matchedUsername: string) => {
@@ -189,6 +490,23 @@ export default function MindalikeApp() {
     }
   }, []);
 
+  // Open a World App group chat with the other members of a room
+  const openGroupChat = useCallback(async (members: string[]) => {
+    try {
+      if (!MiniKit.isInstalled()) {
+        throw new Error('MiniKit is not installed. Please open this app in World App.');
+      }
+
+      await MiniKit.commandsAsync.chat({
+        to: members,
+        message: `Hey all! We were grouped together on Mindalike 👋`,
+      });
+    } catch (e) {
+      console.error('Failed to open group chat:', e);
+      setError('Failed to open chat. Please try again.');
+    }
+  }, []);
+
   // Wallet Authentication
   const handleWalletAuth = useCallback(async () => {
     setAppState('authenticating');
@@ -227,12 +545,18 @@ export default function MindalikeApp() {
         throw new Error('Failed to verify signature');
       }
 
-      const verifyData = await verifyRes.json() as { isValid: boolean; address: string; username: string };
+      const verifyData = await verifyRes.json() as {
+        isValid: boolean;
+        address: string;
+        username: string;
+        session?: { expires_at: number };
+      };
       const { isValid, address, username } = verifyData;
 
       if (!isValid) {
         throw new Error('Invalid signature');
       }
+      setSessionExpiresAt(verifyData.session?.expires_at ?? null);
 
       setUser({
         walletAddress: address,
@@ -291,7 +615,6 @@ export default function MindalikeApp() {
           payload: finalPayload,
           action: actionId,
           signal: user?.walletAddress,
-          wallet_address: user?.walletAddress,
         }),
       });
 
@@ -299,27 +622,64 @@ export default function MindalikeApp() {
         throw new Error('Failed to verify proof');
       }
 
-      const verifyWorldIdData = await verifyRes.json() as { verified: boolean };
+      const verifyWorldIdData = await verifyRes.json() as { verified: boolean; session?: { expires_at: number } };
       
       if (!verifyWorldIdData.verified) {
         throw new Error('Verification failed');
       }
+      setSessionExpiresAt(verifyWorldIdData.session?.expires_at ?? null);
 
       if (user) {
         setUser({ ...user, isVerified: true });
       }
 
-      // Fetch today's match count once the user is verified
+      // Fetch the credit balance once the user is verified
       try {
-        if (user?.walletAddress) {
-          const res = await fetch(`/api/matches/today?wallet=${encodeURIComponent(user.walletAddress)}`);
-          if (res.ok) {
-            const data = await res.json() as { count: number; free_limit: number };
-            setDailyMatches(data.count ?? 0);
+        const res = await fetch('/api/credits');
+        if (res.ok) {
+          const data = await res.json() as {
+            free: number;
+            purchased: number;
+            free_limit?: number;
+            group_match_cost?: number;
+            pass_expires_at?: number | null;
+          };
+          setCredits({ free: data.free ?? 0, purchased: data.purchased ?? 0 });
+          if (typeof data.free_limit === 'number') {
+            setFreeLimit(data.free_limit);
+          }
+          setPassExpiresAt(data.pass_expires_at ?? null);
+          if (typeof data.group_match_cost === 'number') {
+            setGroupMatchCost(data.group_match_cost);
           }
         }
       } catch {
-        // Non-fatal: user can still proceed, default count stays at 0
+        // Non-fatal: user can still proceed, the server checks credits anyway
+      }
+
+      // Load the language catalog and the language we match in
+      try {
+        const res = await fetch('/api/language');
+        if (res.ok) {
+          const data = await res.json() as { catalog: Language[]; selected: string | null };
+          setLanguageCatalog(data.catalog ?? []);
+          setLanguage(data.selected ?? null);
+        }
+      } catch {
+        // Non-fatal: the server falls back to Accept-Language
+      }
+
+      // Load the interest catalog and any tags saved on the profile
+      try {
+        const res = await fetch('/api/interests');
+        if (res.ok) {
+          const data = await res.json() as { catalog: InterestTag[]; selected: string[]; max: number };
+          setInterestCatalog(data.catalog ?? []);
+          setSelectedInterests(data.selected ?? []);
+          setMaxInterests(data.max ?? 5);
+        }
+      } catch {
+        // Non-fatal: matching works without interests
       }
 
       setAppState('verified');
@@ -336,21 +696,49 @@ export default function MindalikeApp() {
       return;
     }
 
-    // Freemium gating: 5 free matches per day
-    if (dailyMatches >= freeLimit) {
+    // Freemium gating: free daily matches, then purchased credits; a group
+    // room costs more. An unlimited pass skips it.
+    if (passExpiresAt === null && credits.free + credits.purchased < (groupSize === null ? 1 : groupMatchCost)) {
       setAppState('payment_required');
       return;
     }
 
     setAppState('queuing');
     setError(null);
-    connectWebSocket(user.username);
+    setMatchTier('strong');
+    setQueueStats(null);
+    setEventStatus(null);
+    resumeRef.current = null;
+    eventRef.current = null;
+    poolRef.current = null;
+    connectWebSocket();
+  };
+
+  // Join an open scheduled event; event matches don't use credits
+  const handleJoinEvent = (event: UpcomingEvent) => {
+    if (!user?.username || !user.walletAddress) {
+      setError('Please authenticate first');
+      return;
+    }
+
+    setAppState('queuing');
+    setError(null);
+    setQueueStats(null);
+    setEventStatus(null);
+    resumeRef.current = null;
+    eventRef.current = event.id;
+    poolRef.current = null;
+    connectWebSocket();
   };
 
   // Cancel matching
   const handleCancelMatch = () => {
+    resumeRef.current = null;
+    eventRef.current = null;
+    poolRef.current = null;
+    setEventStatus(null);
     if (wsRef.current) {
-      wsRef.current.send(JSON.stringify({ type: 'leave_queue' }));
+      wsRef.current.send(encodeMessage({ type: 'leave_queue' }));
       wsRef.current.close();
     }
     if (reconnectTimeoutRef.current) {
@@ -360,13 +748,122 @@ export default function MindalikeApp() {
     setQueuePosition(0);
   };
 
+  // Toggle an interest tag, up to the server's limit
+  const handleToggleInterest = (slug: string) => {
+    setSelectedInterests((prev) => {
+      if (prev.includes(slug)) {
+        return prev.filter((tag) => tag !== slug);
+      }
+      return prev.length >= maxInterests ? prev : [...prev, slug];
+    });
+  };
+
+  // Save the matching language; it decides which queue shard we join
+  const handleChangeLanguage = async (code: string) => {
+    const previous = language;
+    setLanguage(code);
+    try {
+      const res = await fetch('/api/language', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: code }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to save language');
+      }
+    } catch (e) {
+      console.error('Language save error', e);
+      setLanguage(previous);
+    }
+  };
+
+  // Leave the quiz (stable so QuizView's loader doesn't re-run)
+  const handleQuizDone = useCallback(() => {
+    setAppState('verified');
+  }, []);
+
+  // Connect or pass on a pseudonymous match
+  const handleMatchDecision = (decision: 'connect' | 'pass') => {
+    wsRef.current?.send(encodeMessage({ type: 'match_decision', payload: { decision } }));
+    if (decision === 'connect') {
+      setMatch((prev) => prev && { ...prev, status: 'waiting' });
+    }
+  };
+
   // Find another match
   const handleFindAnother = () => {
     setMatch(null);
+    setGroup(null);
     setCountdown(5);
+    // At an event the server already put us back in for the next round
+    if (eventRef.current !== null && wsRef.current?.readyState === WebSocket.OPEN) {
+      setAppState('matching');
+      return;
+    }
     handleFindMatch();
   };
 
+  // Sign out: leave the queue, revoke the session and start over
+  const handleSignOut = async () => {
+    resumeRef.current = null;
+    eventRef.current = null;
+    poolRef.current = null;
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+    }
+    if (wsRef.current) {
+      if (wsRef.current.readyState === WebSocket.OPEN) {
+        wsRef.current.send(encodeMessage({ type: 'leave_queue' }));
+      }
+      wsRef.current.close();
+      wsRef.current = null;
+    }
+    try {
+      await fetch('/api/session/logout', { method: 'POST' });
+    } catch (e) {
+      console.error('Logout error', e);
+    }
+    setUser(null);
+    setSessionExpiresAt(null);
+    setMatch(null);
+    setGroup(null);
+    setEventStatus(null);
+    setError(null);
+    setAppState('landing');
+  };
+
+  // Keep the session alive while the app is open; once it can't be
+  // refreshed, sign in again
+  useEffect(() => {
+    if (sessionExpiresAt === null) return;
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/session/refresh', { method: 'POST' });
+        if (res.ok) {
+          const data = await res.json() as { session: { expires_at: number } };
+          setSessionExpiresAt(data.session.expires_at);
+          return;
+        }
+        if (res.status === 401) {
+          setUser(null);
+          setSessionExpiresAt(null);
+          setError('Your session has ended. Please sign in again.');
+          setAppState('error');
+        }
+      } catch (e) {
+        console.error('Session refresh error', e);
+      }
+    }, Math.max(0, sessionExpiresAt - SESSION_REFRESH_MARGIN_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [sessionExpiresAt]);
+
+  // An expired pass falls back to the free tier on its own
+  useEffect(() => {
+    if (passExpiresAt === null) return;
+    const timeout = setTimeout(() => setPassExpiresAt(null), Math.max(0, passExpiresAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [passExpiresAt]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -398,6 +895,13 @@ export default function MindalikeApp() {
           <div className="flex items-center gap-2 text-body-sm text-text-secondary">
             <div className={`w-2 h-2 rounded-full ${user.isVerified ? 'bg-success' : 'bg-yellow-500'}`} />
             <span className="truncate max-w-[100px] font-medium">{user.username}</span>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="text-text-tertiary hover:underline"
+            >
+              Sign out
+            </button>
           </div>
         )}
       </header>
@@ -422,36 +926,84 @@ export default function MindalikeApp() {
         {appState === 'verified' && (
           <VerifiedView
             username={user?.username || ''}
-            remainingFree={remainingFree}
+            credits={credits}
+            freeLimit={freeLimit}
+            passExpiresAt={passExpiresAt}
+            interestCatalog={interestCatalog}
+            selectedInterests={selectedInterests}
+            maxInterests={maxInterests}
+            onToggleInterest={handleToggleInterest}
+            languageCatalog={languageCatalog}
+            language={language}
+            onChangeLanguage={handleChangeLanguage}
+            groupSize={groupSize}
+            groupMatchCost={groupMatchCost}
+            onChangeGroupSize={setGroupSize}
+            onTakeQuiz={() => setAppState('quiz')}
             onFindMatch={handleFindMatch}
+            onJoinEvent={handleJoinEvent}
+          />
+        )}
+
+        {appState === 'quiz' && (
+          <QuizView
+            onDone={handleQuizDone}
+            setError={setError}
           />
         )}
 
         {(appState === 'queuing' || appState === 'matching') && (
           <MatchingView
             position={queuePosition}
-            remainingFree={remainingFree}
+            tier={matchTier}
+            stats={queueStats}
+            event={eventStatus}
+            credits={credits}
+            freeLimit={freeLimit}
+            passExpiresAt={passExpiresAt}
             onCancel={handleCancelMatch}
           />
         )}
 
         {appState === 'matched' && match && (
           <MatchedView
+            matchId={match.matchId}
+            handle={match.handle}
             matchedUsername={match.matchedUsername}
+            status={match.status}
+            decisionExpiresAt={match.decisionExpiresAt}
+            sharedInterests={match.sharedInterests.map(
+              (slug) => interestCatalog.find((tag) => tag.slug === slug)?.label ?? slug
+            )}
+            compatibility={match.compatibility}
+            sharedAnswers={match.sharedAnswers}
             countdown={countdown}
-            onChatNow={() => redirectToChat(match.matchedUsername)}
+            onConnect={() => handleMatchDecision('connect')}
+            onPass={() => handleMatchDecision('pass')}
+            onChatNow={() => match.matchedUsername && redirectToChat(match.matchedUsername)}
+            onFindAnother={handleFindAnother}
+          />
+        )}
+
+        {appState === 'group_matched' && group && (
+          <GroupMatchedView
+            members={group.members}
+            sharedInterests={group.sharedInterests.map(
+              (slug) => interestCatalog.find((tag) => tag.slug === slug)?.label ?? slug
+            )}
+            onOpenChat={() => openGroupChat(group.members)}
             onFindAnother={handleFindAnother}
           />
         )}
 
         {appState === 'payment_required' && user && (
           <PaymentView
-            walletAddress={user.walletAddress}
-            remainingFree={remainingFree}
+            credits={credits}
+            freeLimit={freeLimit}
             onClose={() => setAppState('verified')}
-            onPaymentSuccess={() => {
-              // After payment we effectively give 5 more free matches by reducing local count
-              setDailyMatches((prev) => Math.max(0, prev - 5));
+            onPaymentSuccess={(balance, passEnd) => {
+              setCredits(balance);
+              setPassExpiresAt(passEnd);
               setAppState('verified');
             }}
             setError={setError}
@@ -611,13 +1163,76 @@ function VerifyView({ onVerify, error }: { onVerify: () => void; error: string |
 // Verified View Component
 function VerifiedView({
   username,
-  remainingFree,
+  credits,
+  freeLimit,
+  passExpiresAt,
+  interestCatalog,
+  selectedInterests,
+  maxInterests,
+  onToggleInterest,
+  languageCatalog,
+  language,
+  onChangeLanguage,
+  groupSize,
+  groupMatchCost,
+  onChangeGroupSize,
+  onTakeQuiz,
   onFindMatch,
+  onJoinEvent,
 }: {
   username: string;
-  remainingFree: number;
+  credits: CreditBalance;
+  freeLimit: number;
+  passExpiresAt: number | null;
+  interestCatalog: InterestTag[];
+  selectedInterests: string[];
+  maxInterests: number;
+  onToggleInterest: (slug: string) => void;
+  languageCatalog: Language[];
+  language: string | null;
+  onChangeLanguage: (code: string) => void;
+  groupSize: number | null;
+  groupMatchCost: number;
+  onChangeGroupSize: (size: number | null) => void;
+  onTakeQuiz: () => void;
   onFindMatch: () => void;
+  onJoinEvent: (event: UpcomingEvent) => void;
 }) {
+  const [history, setHistory] = useState<PastMatch[]>([]);
+  const [events, setEvents] = useState<UpcomingEvent[]>([]);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const res = await fetch('/api/matches/history');
+        if (res.ok) {
+          const data = await res.json() as { matches: PastMatch[] };
+          setHistory(data.matches ?? []);
+        }
+      } catch {
+        // Non-fatal: history is informational only
+      }
+    };
+
+    loadHistory();
+  }, []);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        const res = await fetch('/api/events');
+        if (res.ok) {
+          const data = await res.json() as { events: UpcomingEvent[] };
+          setEvents(data.events ?? []);
+        }
+      } catch {
+        // Non-fatal: regular matching works without events
+      }
+    };
+
+    loadEvents();
+  }, []);
+
   return (
     <Card variant="elevated" className="max-w-sm mx-auto w-full text-center space-y-6">
       <div className="w-24 h-24 bg-gradient-to-br from-success to-green-600 rounded-full flex items-center justify-center mx-auto shadow-lg animate-float">
@@ -637,10 +1252,72 @@ function VerifiedView({
           You can now connect with other verified humans around the world.
         </p>
 
+        <CreditSummary credits={credits} freeLimit={freeLimit} passExpiresAt={passExpiresAt} />
+      </div>
+
+      {interestCatalog.length > 0 && (
+        <div className="space-y-3 text-left">
+          <p className="text-body-sm font-medium text-text-secondary">
+            Your interests ({selectedInterests.length}/{maxInterests})
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {interestCatalog.map((tag) => {
+              const selected = selectedInterests.includes(tag.slug);
+              return (
+                <button
+                  key={tag.slug}
+                  type="button"
+                  onClick={() => onToggleInterest(tag.slug)}
+                  aria-pressed={selected}
+                  className={`px-3 py-1.5 rounded-lg border text-body-sm transition-all duration-200 ease-in-out ${
+                    selected
+                      ? 'bg-brand-primary border-brand-primary text-text-inverted'
+                      : 'bg-bg-3 border-border-primary text-text-secondary hover:border-border-secondary'
+                  }`}
+                >
+                  {tag.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {languageCatalog.length > 0 && (
+        <label className="flex items-center justify-between gap-3 text-left">
+          <span className="text-body-sm font-medium text-text-secondary">Match in</span>
+          <select
+            value={language ?? ''}
+            onChange={(e) => onChangeLanguage(e.target.value)}
+            className="px-3 py-1.5 rounded-lg border border-border-primary bg-bg-3 text-body-sm text-text-primary"
+          >
+            {language === null && <option value="">Any language</option>}
+            {languageCatalog.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label className="flex items-center justify-between gap-3 text-left">
+        <span className="text-body-sm font-medium text-text-secondary">Meet</span>
+        <select
+          value={groupSize ?? ''}
+          onChange={(e) => onChangeGroupSize(e.target.value ? Number(e.target.value) : null)}
+          className="px-3 py-1.5 rounded-lg border border-border-primary bg-bg-3 text-body-sm text-text-primary"
+        >
+          <option value="">One person</option>
+          {GROUP_SIZES.map((size) => (
+            <option key={size} value={size}>A group of {size}</option>
+          ))}
+        </select>
+      </label>
+
+      {groupSize !== null && (
         <p className="text-body-sm text-text-tertiary">
-          {remainingFree}/5 free matches left today
+          A group room uses {groupMatchCost} of your daily matches
         </p>
-      </div>
+      )}
 
       <Button
         onClick={onFindMatch}
@@ -655,20 +1332,287 @@ function VerifiedView({
       >
         Find a Match
       </Button>
+
+      <Button
+        onClick={onTakeQuiz}
+        variant="secondary"
+        size="md"
+        className="w-full"
+      >
+        Take the Mindalike quiz
+      </Button>
+
+      {events.length > 0 && (
+        <div className="space-y-2 text-left">
+          <p className="text-body-sm font-medium text-text-secondary">Upcoming events</p>
+          <ul className="space-y-2">
+            {events.map((event) => (
+              <li key={event.id} className="p-3 bg-bg-2 rounded-xl text-body-sm space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-semibold text-text-primary">{event.title}</span>
+                  {event.status === 'open' ? (
+                    <Button onClick={() => onJoinEvent(event)} variant="primary" size="sm">
+                      Join
+                    </Button>
+                  ) : (
+                    <span className="text-text-tertiary">
+                      {new Date(event.startsAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                    </span>
+                  )}
+                </div>
+                {event.description && (
+                  <p className="text-text-secondary">{event.description}</p>
+                )}
+                <p className="text-text-tertiary">
+                  New partner every {event.roundMinutes} min · free to join
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-2 text-left">
+          <p className="text-body-sm font-medium text-text-secondary">Past matches</p>
+          <ul className="space-y-2">
+            {history.slice(0, 5).map((entry) => (
+              <li key={entry.id} className="p-3 bg-bg-2 rounded-xl text-body-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-text-primary">
+                    {entry.partnerUsername ? `@${entry.partnerUsername}` : entry.partnerHandle ?? 'Anonymous'}
+                  </span>
+                  <span className="text-text-tertiary">
+                    {entry.compatibility !== null && `${entry.compatibility}% · `}
+                    {new Date(entry.matchedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <PartnerSafetyActions matchId={entry.id} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Quiz View Component
+function QuizView({
+  onDone,
+  setError,
+}: {
+  onDone: () => void;
+  setError: (msg: string | null) => void;
+}) {
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadQuiz = async () => {
+      try {
+        const res = await fetch('/api/quiz');
+        if (!res.ok) {
+          throw new Error('Failed to load quiz');
+        }
+        const data = await res.json() as { quiz: Quiz; answers: Record<number, number> };
+        setQuiz(data.quiz);
+        setAnswers(data.answers ?? {});
+      } catch (e) {
+        console.error('Quiz load error', e);
+        setError('Could not load the quiz. Please try again.');
+        onDone();
+      }
+    };
+
+    loadQuiz();
+  }, [onDone, setError]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/quiz/answers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to save answers');
+      }
+      onDone();
+    } catch (e) {
+      console.error('Quiz save error', e);
+      setError('Could not save your answers. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!quiz) {
+    return <LoadingView message="Loading quiz..." />;
+  }
+
+  const answeredCount = quiz.questions.filter((q) => answers[q.id] !== undefined).length;
+
+  return (
+    <Card variant="elevated" className="max-w-sm mx-auto w-full space-y-6">
+      <div className="space-y-2 text-center">
+        <h2 className="text-heading-lg font-display font-bold text-text-primary">{quiz.title}</h2>
+        <p className="text-body-sm text-text-tertiary">
+          Answer a few questions so we can match you with like minds ({answeredCount}/{quiz.questions.length})
+        </p>
+      </div>
+
+      <div className="space-y-5">
+        {quiz.questions.map((question) => (
+          <div key={question.id} className="space-y-2">
+            <p className="text-body-md font-medium text-text-primary">{question.prompt}</p>
+            <div className="flex flex-wrap gap-2">
+              {question.options.map((option, index) => {
+                const selected = answers[question.id] === index;
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setAnswers((prev) => ({ ...prev, [question.id]: index }))}
+                    aria-pressed={selected}
+                    className={`px-3 py-1.5 rounded-lg border text-body-sm transition-all duration-200 ease-in-out ${
+                      selected
+                        ? 'bg-brand-primary border-brand-primary text-text-inverted'
+                        : 'bg-bg-3 border-border-primary text-text-secondary hover:border-border-secondary'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <Button
+          variant="primary"
+          size="lg"
+          className="w-full"
+          onClick={handleSave}
+          isLoading={isSaving}
+          disabled={answeredCount === 0}
+        >
+          Save answers
+        </Button>
+        <Button
+          variant="secondary"
+          size="md"
+          className="w-full"
+          onClick={onDone}
+          disabled={isSaving}
+        >
+          Back
+        </Button>
+      </div>
     </Card>
   );
 }
 
 // Matching View Component
+// What each matching tier means for the user
+const TIER_DESCRIPTIONS: Record<MatchTier, string> = {
+  strong: 'Looking for someone who shares your interests',
+  shared: 'Widening to anyone with a shared interest',
+  open: 'Matching with any verified human',
+};
+
+// Coarse, friendly wait: the server already rounds the estimate
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `~${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `~${minutes} min`;
+  return `~${Math.round(minutes / 60)} h`;
+}
+
+// Minutes and seconds until an event round
+function formatCountdown(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
 function MatchingView({
   position,
-  remainingFree,
+  tier,
+  stats,
+  event,
+  credits,
+  freeLimit,
+  passExpiresAt,
   onCancel,
 }: {
   position: number;
-  remainingFree: number;
+  tier: MatchTier;
+  stats: QueueStats | null;
+  event: EventStatusPayload | null;
+  credits: CreditBalance;
+  freeLimit: number;
+  passExpiresAt: number | null;
   onCancel: () => void;
 }) {
+  const nextRoundAt = event?.nextRoundAt ?? null;
+  const [secondsToRound, setSecondsToRound] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (nextRoundAt === null) {
+      setSecondsToRound(null);
+      return;
+    }
+    const update = () => setSecondsToRound(Math.max(0, Math.ceil((nextRoundAt - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [nextRoundAt]);
+
+  if (event) {
+    return (
+      <Card variant="elevated" className="max-w-sm mx-auto w-full text-center space-y-6">
+        <div className="relative w-32 h-32 mx-auto">
+          <div className="pulse-ring" style={{ width: '100%', height: '100%' }} />
+          <div className="relative w-full h-full bg-gradient-to-br from-brand-primary to-brand-heavy rounded-full flex items-center justify-center shadow-brand-primary">
+            <span className="text-heading-lg font-display font-bold text-text-inverted">
+              {secondsToRound !== null ? formatCountdown(secondsToRound) : '—'}
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-heading-lg font-display font-bold text-text-primary">{event.title}</h2>
+
+          <p className="text-body-md text-text-secondary">
+            {nextRoundAt === null
+              ? 'That was the last round'
+              : event.round === 0
+                ? 'The first round starts soon'
+                : `Round ${event.round + 1} starts soon`}
+          </p>
+
+          <p className="text-body-sm text-text-tertiary">
+            {event.participants} taking part · ends at {new Date(event.endsAt).toLocaleTimeString([], { timeStyle: 'short' })}
+          </p>
+        </div>
+
+        <Button
+          onClick={onCancel}
+          variant="secondary"
+          size="md"
+          className="w-full"
+        >
+          Leave event
+        </Button>
+      </Card>
+    );
+  }
+
   return (
     <Card variant="elevated" className="max-w-sm mx-auto w-full text-center space-y-6">
       {/* Animated searching indicator */}
@@ -687,18 +1631,28 @@ function MatchingView({
         <h2 className="text-heading-lg font-display font-bold text-text-primary">Finding Your Match...</h2>
         
         <p className="text-body-md text-text-secondary">
-          Looking for another verified human
+          {TIER_DESCRIPTIONS[tier]}
         </p>
 
-        <p className="text-body-sm text-text-tertiary">
-          {remainingFree}/5 free matches left today
-        </p>
+        <CreditSummary credits={credits} freeLimit={freeLimit} passExpiresAt={passExpiresAt} />
 
         {position > 0 && (
           <p className="text-body-sm text-brand-primary font-medium">
             Queue position: {position}
           </p>
         )}
+
+        {stats && stats.estimatedWaitSeconds !== null && (
+          <p className="text-body-sm text-text-secondary">
+            Estimated wait: {formatWait(stats.estimatedWaitSeconds)}
+          </p>
+        )}
+
+        {stats && (
+          <p className="text-body-sm text-text-tertiary">
+            {stats.online} online · {stats.matchedLastHour} matched in the last hour
+          </p>
+        )}
       </div>
 
       <div className="flex items-center justify-center gap-2 text-text-tertiary">
@@ -719,18 +1673,130 @@ function MatchingView({
   );
 }
 
+// Report and block controls for the partner of one match; a report
+// blocks them too
+function PartnerSafetyActions({ matchId, onActioned }: { matchId: number; onActioned?: () => void }) {
+  const [reporting, setReporting] = useState(false);
+  const [actioned, setActioned] = useState<'reported' | 'blocked' | null>(null);
+
+  const handleReport = async (reason: string) => {
+    setReporting(false);
+    try {
+      const res = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ match_id: matchId, reason }),
+      });
+      if (res.ok) {
+        setActioned('reported');
+        onActioned?.();
+      }
+    } catch (e) {
+      console.error('Report error', e);
+    }
+  };
+
+  const handleBlock = async () => {
+    try {
+      const res = await fetch('/api/blocks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ match_id: matchId }),
+      });
+      if (res.ok) {
+        setActioned('blocked');
+        onActioned?.();
+      }
+    } catch (e) {
+      console.error('Block error', e);
+    }
+  };
+
+  if (actioned) {
+    return (
+      <p className="text-text-tertiary">
+        {actioned === 'reported' ? 'Reported and blocked' : 'Blocked'}
+      </p>
+    );
+  }
+
+  if (reporting) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        {REPORT_REASONS.map((reason) => (
+          <button
+            key={reason.value}
+            type="button"
+            onClick={() => handleReport(reason.value)}
+            className="px-2 py-1 rounded-lg border border-border-primary bg-bg-3 text-text-secondary hover:border-destructive hover:text-destructive transition-all duration-200 ease-in-out"
+          >
+            {reason.label}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4">
+      <button
+        type="button"
+        onClick={() => setReporting(true)}
+        className="text-destructive hover:underline"
+      >
+        Report
+      </button>
+      <button
+        type="button"
+        onClick={handleBlock}
+        className="text-text-tertiary hover:underline"
+      >
+        Block
+      </button>
+    </div>
+  );
+}
+
 // Matched View Component
 function MatchedView({ 
+  matchId,
+  handle,
   matchedUsername, 
+  status,
+  decisionExpiresAt,
+  sharedInterests,
+  compatibility,
+  sharedAnswers,
   countdown, 
+  onConnect,
+  onPass,
   onChatNow, 
   onFindAnother 
 }: { 
-  matchedUsername: string; 
+  matchId: number | null;
+  handle: string;
+  matchedUsername: string | null; 
+  status: MatchStatus;
+  decisionExpiresAt: number;
+  sharedInterests: string[];
+  compatibility: number | null;
+  sharedAnswers: SharedAnswer[];
   countdown: number; 
+  onConnect: () => void;
+  onPass: () => void;
   onChatNow: () => void; 
   onFindAnother: () => void;
 }) {
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((decisionExpiresAt - Date.now()) / 1000)));
+
+  useEffect(() => {
+    if (status !== 'deciding' && status !== 'waiting') return;
+    const interval = setInterval(() => {
+      setSecondsLeft(Math.max(0, Math.ceil((decisionExpiresAt - Date.now()) / 1000)));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [status, decisionExpiresAt]);
+
   return (
     <Card variant="elevated" className="max-w-sm mx-auto w-full text-center space-y-6">
       {/* Celebration animation */}
@@ -744,31 +1810,179 @@ function MatchedView({
       </div>
 
       <div className="space-y-2">
-        <h2 className="text-heading-lg font-display font-bold text-text-primary">Match Found! 🎉</h2>
+        <h2 className="text-heading-lg font-display font-bold text-text-primary">
+          {status === 'revealed' ? "It's a Connection! 🎉" : 'Match Found! 🎉'}
+        </h2>
         
-        <p className="text-body-md text-text-secondary">You&apos;ve been matched with</p>
-        <p className="text-heading-lg font-display font-bold text-brand-primary">{matchedUsername}</p>
-
-        <p className="text-body-sm text-text-tertiary">
-          Redirecting to World Chat in {countdown}s...
+        <p className="text-body-md text-text-secondary">
+          {status === 'revealed' ? 'You can now chat with' : "You've been matched with"}
+        </p>
+        <p className="text-heading-lg font-display font-bold text-brand-primary">
+          {status === 'revealed' && matchedUsername ? matchedUsername : handle}
         </p>
+
+        {compatibility !== null && (
+          <p className="text-body-md font-semibold text-success">
+            {compatibility}% alike
+          </p>
+        )}
+
+        {sharedInterests.length > 0 && (
+          <p className="text-body-sm text-text-secondary">
+            You both like {sharedInterests.join(', ')}
+          </p>
+        )}
+
+        {sharedAnswers.length > 0 && (
+          <ul className="text-body-sm text-text-tertiary space-y-1">
+            {sharedAnswers.slice(0, 3).map((shared) => (
+              <li key={shared.question}>
+                {shared.question} <span className="font-medium text-text-secondary">{shared.answer}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {status === 'deciding' && (
+          <p className="text-body-sm text-text-tertiary">
+            Usernames stay hidden unless you both connect ({secondsLeft}s left)
+          </p>
+        )}
+
+        {status === 'waiting' && (
+          <p className="text-body-sm text-text-tertiary">
+            Waiting for {handle} to decide... ({secondsLeft}s left)
+          </p>
+        )}
+
+        {status === 'revealed' && (
+          <p className="text-body-sm text-text-tertiary">
+            Redirecting to World Chat in {countdown}s...
+          </p>
+        )}
+
+        {status === 'closed' && (
+          <p className="text-body-sm text-text-tertiary">
+            No connection this time. Nothing about you was shared.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {status === 'deciding' && (
+          <>
+            <Button
+              onClick={onConnect}
+              variant="primary"
+              size="lg"
+              className="w-full"
+            >
+              Connect
+            </Button>
+            <Button
+              onClick={onPass}
+              variant="secondary"
+              size="md"
+              className="w-full"
+            >
+              Pass
+            </Button>
+          </>
+        )}
+
+        {status === 'revealed' && (
+          <Button
+            onClick={onChatNow}
+            variant="primary"
+            size="lg"
+            className="w-full"
+            leftIcon={
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+              </svg>
+            }
+          >
+            Chat Now
+          </Button>
+        )}
+        
+        {status !== 'deciding' && (
+          <Button
+            onClick={onFindAnother}
+            variant="secondary"
+            size="md"
+            className="w-full"
+          >
+            Find Another Match
+          </Button>
+        )}
+      </div>
+
+      {/* Dealing with the partner can't wait for the history list; while
+          still deciding, it also passes so nothing is revealed to them */}
+      {matchId !== null && (
+        <div className="flex justify-center text-body-sm">
+          <PartnerSafetyActions
+            matchId={matchId}
+            onActioned={() => status === 'deciding' && onPass()}
+          />
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Group Matched View Component
+function GroupMatchedView({
+  members,
+  sharedInterests,
+  onOpenChat,
+  onFindAnother,
+}: {
+  members: string[];
+  sharedInterests: string[];
+  onOpenChat: () => void;
+  onFindAnother: () => void;
+}) {
+  return (
+    <Card variant="elevated" className="max-w-sm mx-auto w-full text-center space-y-6">
+      <div className="relative w-32 h-32 mx-auto">
+        <div className="absolute inset-0 bg-success rounded-full opacity-20 animate-ping" />
+        <div className="relative w-full h-full bg-gradient-to-br from-success to-green-600 rounded-full flex items-center justify-center shadow-lg">
+          <svg className="w-16 h-16 text-text-inverted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="text-heading-lg font-display font-bold text-text-primary">Your Group is Ready! 🎉</h2>
+
+        <p className="text-body-md text-text-secondary">You&apos;ve been grouped with</p>
+        <ul className="space-y-1">
+          {members.map((member) => (
+            <li key={member} className="text-body-lg font-display font-bold text-brand-primary">
+              {member}
+            </li>
+          ))}
+        </ul>
+
+        {sharedInterests.length > 0 && (
+          <p className="text-body-sm text-text-secondary">
+            You all like {sharedInterests.join(', ')}
+          </p>
+        )}
       </div>
 
       <div className="space-y-3">
         <Button
-          onClick={onChatNow}
+          onClick={onOpenChat}
           variant="primary"
           size="lg"
           className="w-full"
-          leftIcon={
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-            </svg>
-          }
         >
-          Chat Now
+          Open Group Chat
         </Button>
-        
         <Button
           onClick={onFindAnother}
           variant="secondary"
@@ -815,82 +2029,180 @@ function ErrorView({ message, onRetry }: { message: string; onRetry: () => void
   );
 }
 
+// '6d 23h', '5h 12m', '12m'
+function formatPassRemaining(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// Time left on a running unlimited pass, otherwise free matches left
+// today plus purchased credits when there are any
+function CreditSummary({
+  credits,
+  freeLimit,
+  passExpiresAt,
+}: {
+  credits: CreditBalance;
+  freeLimit: number;
+  passExpiresAt: number | null;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (passExpiresAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [passExpiresAt]);
+
+  if (passExpiresAt !== null && passExpiresAt > now) {
+    return (
+      <p className="text-body-sm text-brand-primary font-medium">
+        Unlimited pass: {formatPassRemaining(passExpiresAt - now)} left
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-body-sm text-text-tertiary">
+      {credits.free}/{freeLimit} free matches left today
+      {credits.purchased > 0 && ` · ${credits.purchased} purchased`}
+    </p>
+  );
+}
+
 // Payment View Component
 function PaymentView({
-  walletAddress,
-  remainingFree,
+  credits,
+  freeLimit,
   onClose,
   onPaymentSuccess,
   setError,
 }: {
-  walletAddress: string;
-  remainingFree: number;
+  credits: CreditBalance;
+  freeLimit: number;
   onClose: () => void;
-  onPaymentSuccess: () => void;
+  onPaymentSuccess: (credits: CreditBalance, passExpiresAt: number | null) => void;
   setError: (msg: string | null) => void;
 }) {
-  const [isPaying, setIsPaying] = useState(false);
+  const [products, setProducts] = useState<Product[] | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  // A paid transaction that was still pending when polling gave up
+  const [unconfirmed, setUnconfirmed] = useState<{ reference: string; transactionId: string } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const isPaying = payingId !== null || isChecking;
+
+  // Verifying is idempotent, so a retried call reports the same grant
+  const verifyPayment = async (reference: string, transactionId: string) => {
+    for (let attempt = 0; attempt < PAYMENT_VERIFY_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, PAYMENT_VERIFY_INTERVAL_MS));
+      }
+
+      const verifyRes = await fetch('/api/payments/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          reference_id: reference,
+          transaction_id: transactionId,
+        }),
+      });
+
+      const data = await verifyRes.json() as {
+        success?: boolean;
+        pending?: boolean;
+        credits?: CreditBalance;
+        pass_expires_at?: number | null;
+        error?: string;
+      };
+      if (verifyRes.status === 202 && data.pending) continue;
+
+      setUnconfirmed(null);
+      if (verifyRes.ok && data.success && data.credits) {
+        onPaymentSuccess(data.credits, data.pass_expires_at ?? null);
+      } else {
+        setError(data.error || 'Payment could not be verified. Please try again.');
+      }
+      return;
+    }
+
+    setUnconfirmed({ reference, transactionId });
+    setError('Your payment is still being confirmed. Check it again in a minute.');
+  };
 
-  const handlePay = async () => {
-    setIsPaying(true);
+  const handleCheckPayment = async () => {
+    if (!unconfirmed) return;
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      await verifyPayment(unconfirmed.reference, unconfirmed.transactionId);
+    } catch (e) {
+      console.error('Payment check error', e);
+      setError('Payment could not be checked. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadProducts = async () => {
+      try {
+        const res = await fetch('/api/products');
+        if (res.ok) {
+          const data = await res.json() as { products: Product[] };
+          setProducts(data.products ?? []);
+          return;
+        }
+      } catch {
+        // Shown as an empty catalog below
+      }
+      setProducts([]);
+    };
+
+    loadProducts();
+  }, []);
+
+  const handlePay = async (product: Product) => {
+    setPayingId(product.id);
     setError(null);
 
     try {
       if (!MiniKit.isInstalled()) {
         setError('MiniKit is not available in this environment.');
-        setIsPaying(false);
         return;
       }
 
-      const reference = crypto.randomUUID().replace(/-/g, '');
-
-      // Create payment reference in backend
+      // The server decides what is paid, to whom and until when
       const createRes = await fetch('/api/payments/create', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reference_id: reference, wallet_address: walletAddress }),
+        body: JSON.stringify({ product_id: product.id }),
       });
 
       if (!createRes.ok) {
         setError('Failed to initiate payment. Please try again.');
-        setIsPaying(false);
         return;
       }
 
-      const payload = {
-        reference,
-        to: '0x98f85f5ff0d253665a576773fffbf66d4e043004',
-        tokens: [
-          {
-            symbol: (MiniKit as any).Tokens?.WLD ?? 'WLD',
-            token_amount:
-              (MiniKit as any).tokenToDecimals
-                ? (MiniKit as any).tokenToDecimals(1, (MiniKit as any).Tokens?.WLD).toString()
-                : '1',
-          },
-        ],
-        description: 'Mindalike - Unlock more matches',
-      } as any;
+      const intent = await createRes.json() as PaymentIntent;
+      if (intent.expires_at <= Date.now()) {
+        setError('Payment expired. Please try again.');
+        return;
+      }
 
-      const { finalPayload } = await MiniKit.commandsAsync.pay(payload);
+      const { finalPayload } = await MiniKit.commandsAsync.pay({
+        reference: intent.reference,
+        to: intent.to,
+        tokens: intent.tokens,
+        description: intent.description,
+      });
 
       if (finalPayload.status === 'success') {
-        const verifyRes = await fetch('/api/payments/verify', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            reference_id: reference,
-            transaction_id: finalPayload.transaction_id,
-            wallet_address: walletAddress,
-          }),
-        });
-
-        const data = await verifyRes.json() as { success?: boolean; error?: string };
-        if (verifyRes.ok && data.success) {
-          onPaymentSuccess();
-        } else {
-          setError(data.error || 'Payment could not be verified. Please try again.');
-        }
+        await verifyPayment(intent.reference, finalPayload.transaction_id);
       } else {
         setError('Payment was cancelled or failed.');
       }
@@ -898,7 +2210,7 @@ function PaymentView({
       console.error('Payment error', e);
       setError('Payment failed. Please try again.');
     } finally {
-      setIsPaying(false);
+      setPayingId(null);
     }
   };
 
@@ -909,23 +2221,61 @@ function PaymentView({
           You&apos;ve reached your free limit
         </h2>
         <p className="text-body-md text-text-secondary">
-          You&apos;ve used your 5 free matches today. Pay 1 WLD to unlock 5 more matches.
-        </p>
-        <p className="text-body-sm text-text-tertiary">
-          Current free matches left today: {remainingFree}/5
+          You&apos;ve used your free matches for today. Get a match pack, whose credits never expire, or match without limits with a pass.
         </p>
+        <div className="p-3 bg-bg-2 rounded-xl text-body-sm text-text-secondary space-y-1">
+          <p>Free matches left today: {credits.free}/{freeLimit}</p>
+          <p>Purchased credits: {credits.purchased}</p>
+        </div>
       </div>
 
       <div className="space-y-3">
-        <Button
-          variant="primary"
-          size="lg"
-          className="w-full"
-          onClick={handlePay}
-          isLoading={isPaying}
-        >
-          Pay 1 WLD
-        </Button>
+        {products === null && (
+          <p className="text-body-sm text-text-tertiary">Loading match packs...</p>
+        )}
+        {products?.length === 0 && (
+          <p className="text-body-sm text-text-tertiary">No match packs are on sale right now.</p>
+        )}
+        {products?.map((product) => (
+          <div key={product.id} className="p-3 bg-bg-2 rounded-xl text-body-sm space-y-2">
+            <div className="flex items-center justify-between gap-3 text-left">
+              <div>
+                <p className="font-semibold text-text-primary">{product.title}</p>
+                <p className="text-text-secondary">
+                  {formatPrices(product.prices)}
+                  {product.regularPrices && (
+                    <span className="ml-1 line-through text-text-tertiary">{formatPrices(product.regularPrices)}</span>
+                  )}
+                </p>
+                {product.promoEndsAt !== null && (
+                  <p className="text-brand-primary">
+                    Sale ends {new Date(product.promoEndsAt).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="primary"
+                size="md"
+                onClick={() => handlePay(product)}
+                isLoading={payingId === product.id}
+                disabled={(isPaying && payingId !== product.id) || unconfirmed !== null}
+              >
+                Buy
+              </Button>
+            </div>
+          </div>
+        ))}
+        {unconfirmed && (
+          <Button
+            variant="primary"
+            size="md"
+            className="w-full"
+            onClick={handleCheckPayment}
+            isLoading={isChecking}
+          >
+            Check payment
+          </Button>
+        )}
         <Button
           variant="secondary"
           size="md"
@@ -4,6 +4,11 @@ CREATE TABLE IF NOT EXISTS users (
   wallet_address TEXT PRIMARY KEY,
   world_id_verified INTEGER NOT NULL DEFAULT 0,
   nullifier_hash TEXT UNIQUE,
+  verification_level TEXT,
+  -- JSON array of interest tag slugs from the server catalog
+  interests TEXT,
+  -- Language the user is matched in; picks their queue shard
+  language TEXT,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -19,6 +24,159 @@ CREATE TABLE IF NOT EXISTS payments (
   reference_id TEXT PRIMARY KEY,
   wallet_address TEXT NOT NULL,
   status TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  transaction_id TEXT,
+  granted INTEGER,
+  verified_at INTEGER,
+  product_id TEXT,
+  recipient TEXT,
+  tokens TEXT,
+  description TEXT,
+  expires_at INTEGER,
+  matches INTEGER,
+  pass_hours INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_transaction ON payments(transaction_id);
+
+
+CREATE TABLE IF NOT EXISTS quiz_sets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  set_id INTEGER NOT NULL REFERENCES quiz_sets(id),
+  position INTEGER NOT NULL,
+  prompt TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'choice',
+  options TEXT NOT NULL,
+  UNIQUE (set_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS quiz_answers (
+  wallet_address TEXT NOT NULL,
+  question_id INTEGER NOT NULL REFERENCES quiz_questions(id),
+  answer INTEGER NOT NULL,
+  answered_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (wallet_address, question_id)
+);
+
+CREATE TABLE IF NOT EXISTS matches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_a TEXT NOT NULL,
+  nullifier_b TEXT NOT NULL,
+  -- Only for 'connected' matches (and 'matched' ones from before
+  -- pseudonymous matching)
+  username_a TEXT,
+  username_b TEXT,
+  compatibility INTEGER,
+  outcome TEXT NOT NULL DEFAULT 'matched',
+  matched_at INTEGER NOT NULL,
+  handle_a TEXT,
+  handle_b TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_a ON matches(nullifier_a, matched_at);
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_b ON matches(nullifier_b, matched_at);
+
+CREATE TABLE IF NOT EXISTS reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reporter_nullifier TEXT NOT NULL,
+  reported_nullifier TEXT NOT NULL,
+  match_id INTEGER NOT NULL REFERENCES matches(id),
+  reason TEXT NOT NULL,
+  details TEXT,
+  created_at INTEGER NOT NULL,
+  UNIQUE (match_id, reporter_nullifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_reported ON reports(reported_nullifier, created_at);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  blocker_nullifier TEXT NOT NULL,
+  blocked_nullifier TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (blocker_nullifier, blocked_nullifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked ON blocks(blocked_nullifier);
+
+CREATE TABLE IF NOT EXISTS bans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_hash TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  expires_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bans_nullifier ON bans(nullifier_hash, expires_at);
+
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  description TEXT,
+  starts_at INTEGER NOT NULL,
+  ends_at INTEGER NOT NULL,
+  round_minutes INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_status ON events(status, starts_at);
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet_address TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  source TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  reference TEXT NOT NULL,
+  expires_at INTEGER,
+  created_at INTEGER NOT NULL,
+  UNIQUE (wallet_address, reference, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_source ON credit_ledger(wallet_address, source);
+
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  matches INTEGER NOT NULL,
+  price_wld TEXT,
+  price_usdc TEXT,
+  promo_price_wld TEXT,
+  promo_price_usdc TEXT,
+  promo_starts_at INTEGER,
+  promo_ends_at INTEGER,
+  active INTEGER NOT NULL DEFAULT 1,
+  position INTEGER NOT NULL DEFAULT 0,
+  kind TEXT NOT NULL DEFAULT 'pack',
+  pass_hours INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS entitlements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet_address TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  reference TEXT NOT NULL,
+  starts_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  UNIQUE (wallet_address, reference)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entitlements_wallet ON entitlements(wallet_address, expires_at);
+
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  session_id TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_sessions_expires ON revoked_sessions(expires_at);
@@ -38,16 +38,6 @@ export const ERROR_MESSAGES = {
   GENERIC: 'Something went wrong. Please try again.',
 } as const;
 
-// WebSocket message types
-export const WS_MESSAGE_TYPES = {
-  JOIN_QUEUE: 'join_queue',
-  LEAVE_QUEUE: 'leave_queue',
-  MATCHED: 'matched',
-  ERROR: 'error',
-  QUEUE_STATUS: 'queue_status',
-  HEARTBEAT: 'heartbeat',
-} as const;
-
 // App states
 export const APP_STATES = {
   LANDING: 'landing',
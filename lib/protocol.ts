@@ -0,0 +1,304 @@
+/**
+ * Mindalike WebSocket protocol
+ *
+ * The single definition of what travels over `/ws`, shared by the worker
+ * (MatchingQueue) and the client. Every message is `{ type, payload? }`;
+ * the unions below are discriminated on `type`.
+ *
+ * The client asks for a protocol version with the `v` query parameter.
+ * The worker refuses versions outside MIN_PROTOCOL_VERSION..PROTOCOL_VERSION
+ * with `unsupported_version`; otherwise the queue's first message is
+ * `hello` with the version both sides will speak.
+ *
+ * Client messages are untrusted: the server runs them through
+ * `parseClientMessage`, which enforces MAX_CLIENT_MESSAGE_BYTES and the
+ * shape and length of every field. Errors carry a machine-readable `code`
+ * from ERROR_CODES alongside a human-readable message.
+ */
+
+export const PROTOCOL_VERSION = 1;
+// Oldest version the server still speaks. Clients from before versioning
+// send no version at all and are refused.
+export const MIN_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION_PARAM = 'v';
+
+// Upper bounds on what a client may send
+export const MAX_CLIENT_MESSAGE_BYTES = 4 * 1024;
+const MAX_ID_LENGTH = 64;
+const MAX_INTEREST_COUNT = 20;
+const MAX_INTEREST_LENGTH = 40;
+
+// Group rooms: join_queue may ask for a room of this many people, self included
+export const MIN_GROUP_SIZE = 3;
+export const MAX_GROUP_SIZE = 6;
+
+// Close codes used on /ws, besides the standard ones
+export const CLOSE_CODES = {
+  // Replaced by a newer connection of the same human
+  SESSION_REPLACED: 4001,
+  // No valid session: signed out, revoked or expired
+  SESSION_EXPIRED: 4002,
+  BANNED: 4003,
+  // Nobody matched in the shard; reconnect to the global pool
+  QUEUE_FALLBACK: 4004,
+  UNSUPPORTED_VERSION: 4005,
+  // The scheduled event this socket joined is over or not open
+  EVENT_CLOSED: 4006,
+  // Standard: a message exceeded MAX_CLIENT_MESSAGE_BYTES
+  MESSAGE_TOO_BIG: 1009,
+} as const;
+
+export const ERROR_CODES = [
+  'banned',
+  'session_replaced',
+  'session_expired',
+  'unsupported_version',
+  'event_not_open',
+  'invalid_message',
+  'unknown_message_type',
+  'message_too_big',
+  'internal_error',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+// Default message for each code, for when the server has nothing more specific
+export const PROTOCOL_ERROR_MESSAGES: Record<ErrorCode, string> = {
+  banned: 'This account is banned',
+  session_replaced: 'Connected from another session',
+  session_expired: 'Session expired',
+  unsupported_version: 'This version of Mindalike is no longer supported. Please update the app.',
+  event_not_open: 'This event is not open right now',
+  invalid_message: 'Invalid message format',
+  unknown_message_type: 'Unknown message type',
+  message_too_big: 'Message too large',
+  internal_error: 'Something went wrong',
+};
+
+export type MatchTier = 'strong' | 'shared' | 'open';
+
+export type MatchDecision = 'connect' | 'pass';
+
+export interface SharedAnswer {
+  question: string;
+  answer: string;
+}
+
+// Match credits left: today's free allowance and purchased credits, which
+// roll over
+export interface CreditBalance {
+  free: number;
+  purchased: number;
+}
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  // Set with `banned`: when the ban ends, null if permanent
+  expiresAt?: number | null;
+}
+
+export interface QueueStatusPayload {
+  position: number;
+  total: number;
+  tier: MatchTier;
+  estimatedWaitSeconds: number | null;
+  online: number;
+  matchedLastHour: number;
+}
+
+export interface GroupMatchedPayload {
+  roomId: string;
+  // Everyone in the room, self included
+  size: number;
+  // World App usernames of the other members
+  members: string[];
+  // Free matches used today
+  matchCount: number;
+  credits: CreditBalance;
+  // End of the running unlimited pass, if any
+  passExpiresAt: number | null;
+  // Tags every member shares
+  sharedInterests: string[];
+}
+
+export interface MatchedPayload {
+  matchId: number | null;
+  // The partner's ephemeral handle
+  handle: string;
+  matchedAt: number;
+  // Free matches used today
+  matchCount: number;
+  credits: CreditBalance;
+  // End of the running unlimited pass, if any
+  passExpiresAt: number | null;
+  sharedInterests: string[];
+  compatibility: number | null;
+  sharedAnswers: SharedAnswer[];
+  decisionExpiresAt: number;
+}
+
+// Sent to event participants on joining and whenever a round goes by
+export interface EventStatusPayload {
+  eventId: number;
+  title: string;
+  // Rounds played so far
+  round: number;
+  nextRoundAt: number | null;
+  endsAt: number;
+  // Everyone connected to the event
+  participants: number;
+}
+
+export type ClientMessage =
+  | { type: 'join_queue'; payload?: { interests?: string[]; groupSize?: number } }
+  | { type: 'resume_queue'; payload: { token: string } }
+  | { type: 'leave_queue' }
+  | { type: 'match_ack'; payload: { proposalId: string } }
+  | { type: 'match_decision'; payload: { decision: MatchDecision } }
+  | { type: 'heartbeat' };
+
+export type ServerMessage =
+  | { type: 'hello'; payload: { version: number } }
+  | { type: 'resume_token'; payload: { token: string; graceMs: number } }
+  | { type: 'queue_resumed'; payload: { token: string } }
+  | { type: 'resume_failed'; payload: { message: string } }
+  | { type: 'queue_status'; payload: QueueStatusPayload }
+  | { type: 'match_proposed'; payload: { proposalId: string; expiresAt: number } }
+  | { type: 'ready_check_missed'; payload: { message: string } }
+  | { type: 'matched'; payload: MatchedPayload }
+  | { type: 'group_matched'; payload: GroupMatchedPayload }
+  | { type: 'match_revealed'; payload: { matchId: number | null; matchedUsername: string } }
+  | { type: 'match_closed'; payload: { matchId: number | null } }
+  | { type: 'quota_exhausted'; payload: { count: number; limit: number; credits: CreditBalance } }
+  | { type: 'queue_fallback'; payload: { pool: string } }
+  | { type: 'event_status'; payload: EventStatusPayload }
+  | { type: 'event_closed'; payload: { eventId: number } }
+  | { type: 'heartbeat' }
+  | { type: 'error'; payload: ErrorPayload };
+
+export type ClientMessageType = ClientMessage['type'];
+export type ServerMessageType = ServerMessage['type'];
+
+export const CLIENT_MESSAGE_TYPES: readonly ClientMessageType[] = [
+  'join_queue',
+  'resume_queue',
+  'leave_queue',
+  'match_ack',
+  'match_decision',
+  'heartbeat',
+];
+
+export const SERVER_MESSAGE_TYPES: readonly ServerMessageType[] = [
+  'hello',
+  'resume_token',
+  'queue_resumed',
+  'resume_failed',
+  'queue_status',
+  'match_proposed',
+  'ready_check_missed',
+  'matched',
+  'group_matched',
+  'match_revealed',
+  'match_closed',
+  'quota_exhausted',
+  'queue_fallback',
+  'event_status',
+  'event_closed',
+  'heartbeat',
+  'error',
+];
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: ErrorCode };
+
+// The version to speak with a client that asked for `requested`, or null
+// if there is none
+export function negotiateVersion(requested: string | null): number | null {
+  const version = Number(requested);
+  if (!requested || !Number.isInteger(version) || version < MIN_PROTOCOL_VERSION) return null;
+  return Math.min(version, PROTOCOL_VERSION);
+}
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+// An `error` message; `details` overrides the default message or adds fields
+export function errorMessage(code: ErrorCode, details: Partial<Omit<ErrorPayload, 'code'>> = {}): ServerMessage {
+  return { type: 'error', payload: { code, message: PROTOCOL_ERROR_MESSAGES[code], ...details } };
+}
+
+export function isGroupSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= MIN_GROUP_SIZE && (value as number) <= MAX_GROUP_SIZE;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isShortString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+}
+
+/**
+ * Validate a raw message from a client. Only the shape is checked here;
+ * whether an interest tag or proposal id means anything is up to the queue.
+ */
+export function parseClientMessage(raw: string | ArrayBuffer): ParseResult<ClientMessage> {
+  if (typeof raw !== 'string') return { ok: false, error: 'invalid_message' };
+  if (new TextEncoder().encode(raw).length > MAX_CLIENT_MESSAGE_BYTES) return { ok: false, error: 'message_too_big' };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'invalid_message' };
+  }
+  if (!isRecord(data) || typeof data.type !== 'string') return { ok: false, error: 'invalid_message' };
+  if (data.payload !== undefined && !isRecord(data.payload)) return { ok: false, error: 'invalid_message' };
+  const payload = data.payload ?? {};
+
+  switch (data.type) {
+    case 'join_queue': {
+      // The username comes from the session, never from the client
+      const { interests, groupSize } = payload;
+      if (interests !== undefined && !(
+        Array.isArray(interests)
+        && interests.length <= MAX_INTEREST_COUNT
+        && interests.every(tag => isShortString(tag, MAX_INTEREST_LENGTH))
+      )) break;
+      if (groupSize !== undefined && !isGroupSize(groupSize)) break;
+      return { ok: true, message: { type: 'join_queue', payload: { interests, groupSize } } };
+    }
+    case 'resume_queue':
+      if (!isShortString(payload.token, MAX_ID_LENGTH)) break;
+      return { ok: true, message: { type: 'resume_queue', payload: { token: payload.token } } };
+    case 'match_ack':
+      if (!isShortString(payload.proposalId, MAX_ID_LENGTH)) break;
+      return { ok: true, message: { type: 'match_ack', payload: { proposalId: payload.proposalId } } };
+    case 'match_decision':
+      if (payload.decision !== 'connect' && payload.decision !== 'pass') break;
+      return { ok: true, message: { type: 'match_decision', payload: { decision: payload.decision } } };
+    case 'leave_queue':
+      return { ok: true, message: { type: 'leave_queue' } };
+    case 'heartbeat':
+      return { ok: true, message: { type: 'heartbeat' } };
+    default:
+      return { ok: false, error: 'unknown_message_type' };
+  }
+  return { ok: false, error: 'invalid_message' };
+}
+
+// Light check for messages from the server: a known type and, if any, an
+// object payload. The server is trusted for the rest.
+export function parseServerMessage(raw: unknown): ServerMessage | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data) || !(SERVER_MESSAGE_TYPES as readonly unknown[]).includes(data.type)) return null;
+    if (data.payload !== undefined && !isRecord(data.payload)) return null;
+    return data as ServerMessage;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,3 @@
+-- Migration: Record the World ID verification level of each user
+
+ALTER TABLE users ADD COLUMN verification_level TEXT;
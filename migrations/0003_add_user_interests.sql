@@ -0,0 +1,3 @@
+-- Migration: Store each user's interest tags (JSON array of catalog slugs)
+
+ALTER TABLE users ADD COLUMN interests TEXT;
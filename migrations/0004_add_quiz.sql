@@ -0,0 +1,42 @@
+-- Migration: Compatibility quiz (question sets, questions, answers)
+
+CREATE TABLE IF NOT EXISTS quiz_sets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- kind: 'choice' (exact agreement) or 'scale' (ordered options)
+-- options: JSON array of option labels
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  set_id INTEGER NOT NULL REFERENCES quiz_sets(id),
+  position INTEGER NOT NULL,
+  prompt TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'choice',
+  options TEXT NOT NULL,
+  UNIQUE (set_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS quiz_answers (
+  wallet_address TEXT NOT NULL,
+  question_id INTEGER NOT NULL REFERENCES quiz_questions(id),
+  answer INTEGER NOT NULL,
+  answered_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (wallet_address, question_id)
+);
+
+-- Default question set
+INSERT OR IGNORE INTO quiz_sets (id, slug, title) VALUES (1, 'core-v1', 'Are we alike?');
+
+INSERT OR IGNORE INTO quiz_questions (set_id, position, prompt, kind, options) VALUES
+  (1, 1, 'Night owl or early bird?', 'choice', '["Night owl","Early bird"]'),
+  (1, 2, 'Your ideal weekend?', 'choice', '["Out with friends","Cozy at home","Exploring somewhere new"]'),
+  (1, 3, 'I enjoy deep conversations with strangers.', 'scale', '["Strongly disagree","Disagree","Neutral","Agree","Strongly agree"]'),
+  (1, 4, 'Cats or dogs?', 'choice', '["Cats","Dogs","Both","Neither"]'),
+  (1, 5, 'I plan things rather than improvise.', 'scale', '["Strongly disagree","Disagree","Neutral","Agree","Strongly agree"]'),
+  (1, 6, 'Pick a superpower', 'choice', '["Teleportation","Time travel","Mind reading","Invisibility"]'),
+  (1, 7, 'Technology makes life better overall.', 'scale', '["Strongly disagree","Disagree","Neutral","Agree","Strongly agree"]'),
+  (1, 8, 'Mountains or beach?', 'choice', '["Mountains","Beach"]');
@@ -0,0 +1,16 @@
+-- Migration: Record every pairing made by the matching queue
+
+CREATE TABLE IF NOT EXISTS matches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_a TEXT NOT NULL,
+  nullifier_b TEXT NOT NULL,
+  username_a TEXT NOT NULL,
+  username_b TEXT NOT NULL,
+  compatibility INTEGER,
+  outcome TEXT NOT NULL DEFAULT 'matched',
+  -- Unix epoch milliseconds
+  matched_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_a ON matches(nullifier_a, matched_at);
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_b ON matches(nullifier_b, matched_at);
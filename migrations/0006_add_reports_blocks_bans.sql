@@ -0,0 +1,35 @@
+-- Migration: Safety tooling keyed by World ID nullifier_hash
+
+CREATE TABLE IF NOT EXISTS reports (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reporter_nullifier TEXT NOT NULL,
+  reported_nullifier TEXT NOT NULL,
+  match_id INTEGER NOT NULL REFERENCES matches(id),
+  reason TEXT NOT NULL,
+  details TEXT,
+  -- Unix epoch milliseconds
+  created_at INTEGER NOT NULL,
+  UNIQUE (match_id, reporter_nullifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_reported ON reports(reported_nullifier, created_at);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  blocker_nullifier TEXT NOT NULL,
+  blocked_nullifier TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (blocker_nullifier, blocked_nullifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked ON blocks(blocked_nullifier);
+
+CREATE TABLE IF NOT EXISTS bans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_hash TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  -- NULL for a permanent ban
+  expires_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bans_nullifier ON bans(nullifier_hash, expires_at);
@@ -0,0 +1,6 @@
+-- Migration: Pseudonymous matches with mutual reveal
+
+-- Ephemeral handle each side was shown as; usernames are only disclosed
+-- for matches whose outcome is 'connected'
+ALTER TABLE matches ADD COLUMN handle_a TEXT;
+ALTER TABLE matches ADD COLUMN handle_b TEXT;
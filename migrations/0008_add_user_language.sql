@@ -0,0 +1,3 @@
+-- Migration: Store each user's matching language (a shard language code)
+
+ALTER TABLE users ADD COLUMN language TEXT;
@@ -0,0 +1,17 @@
+-- Migration: Scheduled matching events, opened and closed by the cron trigger
+
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  description TEXT,
+  -- Unix epoch milliseconds
+  starts_at INTEGER NOT NULL,
+  ends_at INTEGER NOT NULL,
+  -- Participants are re-paired this often
+  round_minutes INTEGER NOT NULL,
+  -- 'scheduled', 'open' or 'closed'
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_status ON events(status, starts_at);
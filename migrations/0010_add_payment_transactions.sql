@@ -0,0 +1,10 @@
+-- Migration: Settle each payment once, against a single transaction
+
+ALTER TABLE payments ADD COLUMN transaction_id TEXT;
+-- Matches granted when the payment was verified
+ALTER TABLE payments ADD COLUMN granted INTEGER;
+-- Unix epoch milliseconds
+ALTER TABLE payments ADD COLUMN verified_at INTEGER;
+
+-- A transaction can pay for one reference only
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_transaction ON payments(transaction_id);
@@ -0,0 +1,26 @@
+-- Migration: Match credits as an append-only ledger
+--
+-- Replaces daily_matches, which is no longer written. Purchases granted
+-- before this migration were applied to daily_matches and are not carried
+-- over; they only ever lasted until the end of their UTC day.
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet_address TEXT NOT NULL,
+  -- 'grant', 'consume', 'expire' or 'refund'
+  kind TEXT NOT NULL,
+  -- 'free' (the daily allowance) or 'purchased'
+  source TEXT NOT NULL,
+  -- Credits added (positive) or taken (negative)
+  amount INTEGER NOT NULL,
+  -- What the entry is for: 'daily:<date>', 'expire:<date>',
+  -- 'payment:<reference>', a consumption id or 'refund:<consumption id>'
+  reference TEXT NOT NULL,
+  -- Free grants only: end of their UTC day, Unix epoch milliseconds
+  expires_at INTEGER,
+  created_at INTEGER NOT NULL,
+  -- Makes every grant, expiry and refund happen at most once
+  UNIQUE (wallet_address, reference, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_source ON credit_ledger(wallet_address, source);
@@ -0,0 +1,14 @@
+-- Migration: Server-issued payment intents
+--
+-- /api/payments/create now picks what is paid, to whom and until when;
+-- verification checks the transaction against it. Payments created
+-- before this migration have no intent and can no longer be verified.
+
+ALTER TABLE payments ADD COLUMN product_id TEXT;
+-- Address the payment must go to
+ALTER TABLE payments ADD COLUMN recipient TEXT;
+-- JSON array of accepted { symbol, token_amount }, amounts in the token's smallest unit
+ALTER TABLE payments ADD COLUMN tokens TEXT;
+ALTER TABLE payments ADD COLUMN description TEXT;
+-- Unix epoch milliseconds; transactions after this don't count
+ALTER TABLE payments ADD COLUMN expires_at INTEGER;
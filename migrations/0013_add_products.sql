@@ -0,0 +1,35 @@
+-- Migration: Product catalog of match packs
+
+-- Prices are whole-token decimal strings ('1', '2.5'); a NULL price means
+-- the product can't be paid in that token. During the optional promo
+-- window [promo_starts_at, promo_ends_at) the promo prices apply instead.
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  -- Shown in the World App payment sheet
+  description TEXT NOT NULL,
+  -- Purchased credits granted
+  matches INTEGER NOT NULL,
+  price_wld TEXT,
+  price_usdc TEXT,
+  promo_price_wld TEXT,
+  promo_price_usdc TEXT,
+  -- Unix epoch milliseconds
+  promo_starts_at INTEGER,
+  promo_ends_at INTEGER,
+  active INTEGER NOT NULL DEFAULT 1,
+  -- Display order
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+-- Credits the payment grants, fixed when the intent is created
+ALTER TABLE payments ADD COLUMN matches INTEGER;
+
+-- Default catalog; matches_5 is the pack sold before the catalog
+INSERT OR IGNORE INTO products (id, title, description, matches, price_wld, price_usdc, position) VALUES
+  ('matches_5', '5 matches', 'Mindalike - 5 match credits', 5, '1', '1.5', 1),
+  ('matches_20', '20 matches', 'Mindalike - 20 match credits', 20, '3.5', '5', 2),
+  ('matches_50', '50 matches', 'Mindalike - 50 match credits', 50, '7.5', '11', 3);
+
+-- Pending intents from before the catalog were all for matches_5
+UPDATE payments SET matches = 5 WHERE product_id = 'matches_5' AND matches IS NULL;
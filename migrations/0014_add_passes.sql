@@ -0,0 +1,31 @@
+-- Migration: Unlimited matching passes
+
+-- kind: 'pack' (grants `matches` credits) or 'pass' (unlimited matching
+-- for `pass_hours`)
+ALTER TABLE products ADD COLUMN kind TEXT NOT NULL DEFAULT 'pack';
+ALTER TABLE products ADD COLUMN pass_hours INTEGER;
+
+-- Pass length the payment grants, fixed when the intent is created
+ALTER TABLE payments ADD COLUMN pass_hours INTEGER;
+
+-- Time-limited rights bought with a payment. A pass bought while another
+-- is running starts when that one ends.
+CREATE TABLE IF NOT EXISTS entitlements (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet_address TEXT NOT NULL,
+  -- 'unlimited': matches don't use credits
+  kind TEXT NOT NULL,
+  -- 'payment:<reference>'
+  reference TEXT NOT NULL,
+  -- Unix epoch milliseconds
+  starts_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  UNIQUE (wallet_address, reference)
+);
+
+CREATE INDEX IF NOT EXISTS idx_entitlements_wallet ON entitlements(wallet_address, expires_at);
+
+INSERT OR IGNORE INTO products (id, title, description, matches, price_wld, price_usdc, position, kind, pass_hours) VALUES
+  ('pass_24h', 'Unlimited for 24 hours', 'Mindalike - 24-hour unlimited pass', 0, '2', '3', 4, 'pass', 24),
+  ('pass_7d', 'Unlimited for 7 days', 'Mindalike - 7-day unlimited pass', 0, '8', '11', 5, 'pass', 168);
@@ -0,0 +1,39 @@
+-- Migration: Store partner usernames only for connected matches
+--
+-- Usernames were written for every match, including ones either side
+-- passed on. They are now written when both sides connect, and dropped
+-- from matches that never got there. SQLite can't relax NOT NULL in
+-- place, so the table is rebuilt; reports keep pointing at the same ids.
+
+PRAGMA defer_foreign_keys = true;
+
+CREATE TABLE matches_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  nullifier_a TEXT NOT NULL,
+  nullifier_b TEXT NOT NULL,
+  -- Only for 'connected' matches (and 'matched' ones from before
+  -- pseudonymous matching)
+  username_a TEXT,
+  username_b TEXT,
+  compatibility INTEGER,
+  outcome TEXT NOT NULL DEFAULT 'matched',
+  matched_at INTEGER NOT NULL,
+  handle_a TEXT,
+  handle_b TEXT
+);
+
+INSERT INTO matches_new (id, nullifier_a, nullifier_b, username_a, username_b, compatibility, outcome, matched_at, handle_a, handle_b)
+SELECT
+  id, nullifier_a, nullifier_b,
+  CASE WHEN outcome IN ('connected', 'matched') THEN username_a END,
+  CASE WHEN outcome IN ('connected', 'matched') THEN username_b END,
+  compatibility, outcome, matched_at, handle_a, handle_b
+FROM matches;
+
+DROP TABLE matches;
+ALTER TABLE matches_new RENAME TO matches;
+
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_a ON matches(nullifier_a, matched_at);
+CREATE INDEX IF NOT EXISTS idx_matches_nullifier_b ON matches(nullifier_b, matched_at);
+
+PRAGMA defer_foreign_keys = false;
@@ -0,0 +1,11 @@
+-- Migration: Server-side session revocation
+
+-- Sessions logged out before they expired. Rows are only needed until
+-- `expires_at` (unix seconds), after which the token is rejected anyway.
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  session_id TEXT PRIMARY KEY,
+  wallet_address TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_revoked_sessions_expires ON revoked_sessions(expires_at);
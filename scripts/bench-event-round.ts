@@ -0,0 +1,140 @@
+/**
+ * Event round pairing benchmark
+ *
+ * Compares the cost of pairing one event round: the old approach (rank
+ * every pair of the lobby, take the best first) against findRoundPairs'
+ * windowed ranking. Also checks that every round is a valid matching that
+ * leaves nobody over who could still have been paired, and reports how
+ * close its total rank comes to the exhaustive one.
+ *
+ * Run with: npm run bench:round
+ */
+
+import { INTEREST_CATALOG, MAX_INTERESTS, sharedInterests } from '../worker/interests';
+import { INTEREST_WEIGHT } from '../worker/pairing';
+import { compareEntries } from '../worker/queue-order';
+import { findRoundPairs, type RoundEntry } from '../worker/round-pairs';
+
+const LOBBY_SIZES = [500, 2_000, 10_000];
+// The exhaustive approach is skipped past this lobby size
+const EXHAUSTIVE_MAX = 2_000;
+const RUNS = 5;
+// About one pair in this many already met or blocked each other
+const DISALLOWED_ONE_IN = 50;
+
+interface BenchUser extends RoundEntry {
+  id: number;
+  // Stands in for quiz answers
+  compatibility: number;
+}
+
+function makeLobby(count: number, now: number): BenchUser[] {
+  const tags = INTEREST_CATALOG.map(tag => tag.slug);
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    nullifier: `0x${id.toString(16).padStart(8, '0')}`,
+    joinedAt: now - Math.floor(Math.random() * 60_000),
+    interests: tags.filter(() => Math.random() < MAX_INTERESTS / tags.length / 2).slice(0, MAX_INTERESTS),
+    compatibility: Math.floor(Math.random() * 100),
+  })).sort(compareEntries);
+}
+
+let ranked = 0;
+
+function rank(a: BenchUser, b: BenchUser): number | null {
+  ranked++;
+  if ((a.id * 7919 + b.id * 104_729) % DISALLOWED_ONE_IN === 0) return null;
+  return sharedInterests(a.interests, b.interests).length * INTEREST_WEIGHT + 100 - Math.abs(a.compatibility - b.compatibility);
+}
+
+function exhaustiveRound(users: readonly BenchUser[]): [BenchUser, BenchUser][] {
+  const all: { a: BenchUser; b: BenchUser; rank: number }[] = [];
+  for (let i = 0; i < users.length; i++) {
+    for (let j = i + 1; j < users.length; j++) {
+      const score = rank(users[i], users[j]);
+      if (score !== null) all.push({ a: users[i], b: users[j], rank: score });
+    }
+  }
+  all.sort((x, y) => y.rank - x.rank);
+
+  const taken = new Set<BenchUser>();
+  const pairs: [BenchUser, BenchUser][] = [];
+  for (const { a, b } of all) {
+    if (taken.has(a) || taken.has(b)) continue;
+    taken.add(a);
+    taken.add(b);
+    pairs.push([a, b]);
+  }
+  return pairs;
+}
+
+function totalRank(pairs: [BenchUser, BenchUser][]): number {
+  return pairs.reduce((sum, [a, b]) => sum + (rank(a, b) ?? 0), 0);
+}
+
+// Throws unless `pairs` is a valid matching that leaves no allowed pair over
+function check(users: readonly BenchUser[], pairs: [BenchUser, BenchUser][]): void {
+  const taken = new Set<BenchUser>();
+  for (const [a, b] of pairs) {
+    if (a === b || taken.has(a) || taken.has(b)) throw new Error('participant paired twice');
+    if (rank(a, b) === null) throw new Error('disallowed pair');
+    taken.add(a);
+    taken.add(b);
+  }
+  const left = users.filter(user => !taken.has(user));
+  for (let i = 0; i < left.length; i++) {
+    for (let j = i + 1; j < left.length; j++) {
+      if (rank(left[i], left[j]) !== null) throw new Error(`${left.length} left over who could have met`);
+    }
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function run(): void {
+  console.log(`Event round pairing (median of ${RUNS} runs)\n`);
+  console.log('lobby  | exhaustive ms | exhaustive ranks | windowed ms | windowed ranks | paired | quality');
+  console.log('-------|---------------|------------------|-------------|----------------|--------|--------');
+
+  for (const size of LOBBY_SIZES) {
+    const exhaustiveTimes: number[] = [];
+    const windowedTimes: number[] = [];
+    let exhaustiveRanks = 0;
+    let windowedRanks = 0;
+    let paired = 0;
+    let quality: number | null = null;
+
+    for (let r = 0; r < RUNS; r++) {
+      const users = makeLobby(size, Date.now());
+
+      ranked = 0;
+      let t = performance.now();
+      const pairs = findRoundPairs(users, rank);
+      windowedTimes.push(performance.now() - t);
+      windowedRanks = ranked;
+      paired = pairs.length * 2;
+      check(users, pairs);
+
+      if (size > EXHAUSTIVE_MAX) continue;
+      ranked = 0;
+      t = performance.now();
+      const best = exhaustiveRound(users);
+      exhaustiveTimes.push(performance.now() - t);
+      exhaustiveRanks = ranked;
+      quality = totalRank(pairs) / totalRank(best);
+    }
+
+    const exhaustive = exhaustiveTimes.length > 0;
+    console.log(
+      `${String(size).padEnd(6)} | ${(exhaustive ? median(exhaustiveTimes).toFixed(1) : '-').padStart(13)} | ` +
+      `${(exhaustive ? String(exhaustiveRanks) : '-').padStart(16)} | ${median(windowedTimes).toFixed(1).padStart(11)} | ` +
+      `${String(windowedRanks).padStart(14)} | ${String(paired).padStart(6)} | ` +
+      `${(quality === null ? '-' : `${(quality * 100).toFixed(1)}%`).padStart(7)}`
+    );
+  }
+}
+
+run();
@@ -0,0 +1,308 @@
+/**
+ * Queue tick benchmark
+ *
+ * Costs of one MatchingQueue tick at 10k queued sockets:
+ *
+ * - The status broadcast: the old approach (sort the whole queue, send to
+ *   everyone) against QueueOrder's incremental flush (visit only entries
+ *   whose position or tier may have changed, send only real changes).
+ * - The matching pass (tryMatch's pairing loop over findPair), on a queue
+ *   where nobody could be paired on the last pass, as between arrivals,
+ *   and with everyone fresh, as on the first pass after a wake-up. The
+ *   last one is the worst case a pass has to stay within. Candidate pairs
+ *   are checked as in production: blocks and recent partners, then the
+ *   quiz score of both sides' answers.
+ *
+ * Run with: npm run bench:queue
+ */
+
+import { INTEREST_CATALOG } from '../worker/interests';
+import {
+  findPair,
+  MATCH_TIERS,
+  MAX_FRESH_PER_PASS,
+  TIER_THRESHOLDS,
+  tierFor,
+  type PairingEntry,
+} from '../worker/pairing';
+import { compareEntries, displayPosition, QueueOrder } from '../worker/queue-order';
+import { compareAnswers, type Quiz, type QuizAnswers } from '../worker/quiz';
+
+const QUEUE_SIZE = 10_000;
+const RUNS = 20;
+const TICK_MS = 2000;
+
+// Pairing history each queued user brings, as loaded from D1
+const RECENT_PARTNERS = 5;
+const BLOCKS = 2;
+const REMATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const AGREE_SCALE = ['Strongly disagree', 'Disagree', 'Neutral', 'Agree', 'Strongly agree'];
+
+// Shaped like the seeded quiz (migrations/0004_add_quiz.sql)
+const QUIZ: Quiz = {
+  id: 1,
+  slug: 'bench',
+  title: 'Bench quiz',
+  questions: [
+    { id: 1, prompt: 'Night owl or early bird?', kind: 'choice', options: ['Night owl', 'Early bird'] },
+    { id: 2, prompt: 'Your ideal weekend?', kind: 'choice', options: ['Out', 'Home', 'Exploring'] },
+    { id: 3, prompt: 'Deep conversations', kind: 'scale', options: AGREE_SCALE },
+    { id: 4, prompt: 'Cats or dogs?', kind: 'choice', options: ['Cats', 'Dogs', 'Both', 'Neither'] },
+    { id: 5, prompt: 'Plan or improvise', kind: 'scale', options: AGREE_SCALE },
+    { id: 6, prompt: 'Pick a superpower', kind: 'choice', options: ['Teleportation', 'Time travel', 'Mind reading', 'Invisibility'] },
+    { id: 7, prompt: 'Technology', kind: 'scale', options: AGREE_SCALE },
+    { id: 8, prompt: 'Mountains or beach?', kind: 'choice', options: ['Mountains', 'Beach'] },
+  ],
+};
+
+interface BenchUser extends PairingEntry {
+  sentStatus?: string;
+}
+
+interface PassUser extends PairingEntry {
+  answers: QuizAnswers;
+}
+
+// What MatchingQueue knows about the queued users when it pairs them
+interface PairingHistory {
+  recentPartners: Map<string, Map<string, number>>;
+  blocked: Map<string, Set<string>>;
+}
+
+let sent = 0;
+
+// Stands in for ws.send: the payload is still serialized
+function send(payload: unknown): void {
+  JSON.stringify(payload);
+  sent++;
+}
+
+function makeUsers(count: number, now: number): BenchUser[] {
+  // Joined over the last two minutes, so some cross tier thresholds each tick
+  return Array.from({ length: count }, (_, i) => ({
+    nullifier: `0x${i.toString(16).padStart(8, '0')}`,
+    joinedAt: now - Math.floor(Math.random() * 120_000),
+    interests: ['music'],
+    groupSize: null,
+  }));
+}
+
+function makeAnswers(): QuizAnswers {
+  const answers: QuizAnswers = {};
+  for (const question of QUIZ.questions) {
+    answers[question.id] = Math.floor(Math.random() * question.options.length);
+  }
+  return answers;
+}
+
+// Everyone still in the strictest tier with a single tag, so no two of
+// them can be paired yet
+function makeUnpairableUsers(count: number, now: number): PassUser[] {
+  const strictWindow = MATCH_TIERS[1].afterMs - TICK_MS;
+  return Array.from({ length: count }, (_, i) => ({
+    nullifier: `0x${i.toString(16).padStart(8, '0')}`,
+    joinedAt: now - Math.floor(Math.random() * strictWindow),
+    interests: [INTEREST_CATALOG[i % INTEREST_CATALOG.length].slug],
+    groupSize: null,
+    answers: makeAnswers(),
+  }));
+}
+
+// Recent partners and blocks among `users`, a few each
+function makeHistory(users: readonly PassUser[], now: number): PairingHistory {
+  const history: PairingHistory = { recentPartners: new Map(), blocked: new Map() };
+  const pick = () => users[Math.floor(Math.random() * users.length)].nullifier;
+  for (const user of users) {
+    const partners = new Map<string, number>();
+    for (let i = 0; i < RECENT_PARTNERS; i++) partners.set(pick(), now - Math.floor(Math.random() * REMATCH_WINDOW_MS));
+    history.recentPartners.set(user.nullifier, partners);
+    history.blocked.set(user.nullifier, new Set(Array.from({ length: BLOCKS }, pick)));
+  }
+  return history;
+}
+
+function legacyTick(queue: Map<string, BenchUser>, now: number): void {
+  const users = Array.from(queue.values()).sort(compareEntries);
+  users.forEach((user, index) => {
+    send({ type: 'queue_status', payload: { position: index + 1, total: queue.size, tier: tierFor(user, now).name } });
+  });
+}
+
+function incrementalTick(order: QueueOrder<BenchUser>, since: number, now: number): void {
+  order.forEachChanged(since, now, TIER_THRESHOLDS, (user, index) => {
+    const position = displayPosition(index + 1);
+    const tier = tierFor(user, now).name;
+    const status = `${position}|${tier}`;
+    if (status === user.sentStatus) return;
+    send({ type: 'queue_status', payload: { position, total: order.size, tier } });
+    user.sentStatus = status;
+  });
+}
+
+type Mutation = (users: BenchUser[], now: number) => { removed: BenchUser[]; added: BenchUser[] };
+
+const SCENARIOS: { name: string; mutate: Mutation }[] = [
+  { name: 'idle tick', mutate: () => ({ removed: [], added: [] }) },
+  { name: 'head pair matched', mutate: users => ({ removed: users.slice(0, 2), added: [] }) },
+  {
+    name: '20 joins at the tail',
+    mutate: (_, now) => ({
+      removed: [],
+      added: Array.from({ length: 20 }, (_, i) => ({ nullifier: `0xnew${i}`, joinedAt: now, interests: ['music'], groupSize: null })),
+    }),
+  },
+  {
+    name: 'pair matched mid-queue',
+    mutate: users => ({ removed: users.slice(QUEUE_SIZE / 2, QUEUE_SIZE / 2 + 2), added: [] }),
+  },
+];
+
+// As MatchingQueue.tryMatch: users crossing a tier threshold become
+// fresh, then pairs are taken until findPair finds none among the batch of
+// fresh users. Returns the pairs.
+function matchingPass(
+  order: QueueOrder<PassUser>,
+  fresh: Set<PassUser>,
+  history: PairingHistory,
+  since: number,
+  now: number
+): number {
+  // As MatchingQueue.isBlocked, metRecently and compatibility
+  const isBlocked = (a: PassUser, b: PassUser) =>
+    Boolean(history.blocked.get(a.nullifier)?.has(b.nullifier) || history.blocked.get(b.nullifier)?.has(a.nullifier));
+  const metRecently = (a: PassUser, b: PassUser) => {
+    const matchedAt = history.recentPartners.get(a.nullifier)?.get(b.nullifier)
+      ?? history.recentPartners.get(b.nullifier)?.get(a.nullifier);
+    return matchedAt !== undefined && now - matchedAt < REMATCH_WINDOW_MS;
+  };
+
+  order.forEachCrossing(since, now, TIER_THRESHOLDS, user => fresh.add(user));
+  let pairs = 0;
+  while (order.size >= 2) {
+    const users = order.values();
+    const batch = users.filter(user => fresh.has(user)).slice(0, MAX_FRESH_PER_PASS);
+    const pair = findPair({
+      users,
+      fresh: batch,
+      now,
+      allowed: (a, b) => !isBlocked(a, b) && !metRecently(a, b),
+      compatibility: (a, b) => compareAnswers(QUIZ, a.answers, b.answers).score,
+    });
+    if (!pair) {
+      for (const user of batch) fresh.delete(user);
+      return pairs;
+    }
+    for (const user of pair) {
+      order.remove(user);
+      fresh.delete(user);
+    }
+    pairs++;
+  }
+  return pairs;
+}
+
+const PASS_SCENARIOS: { name: string; allFresh: boolean; added: (now: number) => PassUser[] }[] = [
+  { name: 'idle pass', allFresh: false, added: () => [] },
+  {
+    name: '20 joins at the tail',
+    allFresh: false,
+    // Ten pairs sharing two tags with each other and nobody else
+    added: now => Array.from({ length: 20 }, (_, i) => ({
+      nullifier: `0xnew${i}`,
+      joinedAt: now,
+      interests: [`new-${i >> 1}-a`, `new-${i >> 1}-b`],
+      groupSize: null,
+      answers: makeAnswers(),
+    })),
+  },
+  { name: 'everyone fresh', allFresh: true, added: () => [] },
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function run(): void {
+  console.log(`queue_status tick at ${QUEUE_SIZE} queued sockets (median of ${RUNS} runs)\n`);
+  console.log('scenario                 | legacy ms | legacy sends | incremental ms | incremental sends');
+  console.log('-------------------------|-----------|--------------|----------------|------------------');
+
+  for (const scenario of SCENARIOS) {
+    const legacyTimes: number[] = [];
+    const incrementalTimes: number[] = [];
+    let legacySends = 0;
+    let incrementalSends = 0;
+
+    for (let r = 0; r < RUNS; r++) {
+      const start = Date.now();
+      const users = makeUsers(QUEUE_SIZE, start);
+
+      // Both sides start from a state where everyone has their current status
+      const queue = new Map(users.map(user => [user.nullifier, { ...user }]));
+      const order = QueueOrder.from(users.map(user => ({ ...user })));
+      incrementalTick(order, start - TICK_MS, start);
+
+      const now = start + TICK_MS;
+      const sorted = order.values().slice();
+      const { removed, added } = scenario.mutate(sorted, now);
+
+      for (const user of removed) {
+        queue.delete(user.nullifier);
+        order.remove(user);
+      }
+      for (const user of added) {
+        queue.set(user.nullifier, { ...user });
+        order.insert({ ...user });
+      }
+
+      sent = 0;
+      let t = performance.now();
+      legacyTick(queue, now);
+      legacyTimes.push(performance.now() - t);
+      legacySends = sent;
+
+      sent = 0;
+      t = performance.now();
+      incrementalTick(order, start, now);
+      incrementalTimes.push(performance.now() - t);
+      incrementalSends = sent;
+    }
+
+    console.log(
+      `${scenario.name.padEnd(24)} | ${median(legacyTimes).toFixed(2).padStart(9)} | ${String(legacySends).padStart(12)} | ` +
+      `${median(incrementalTimes).toFixed(2).padStart(14)} | ${String(incrementalSends).padStart(17)}`
+    );
+  }
+
+  console.log(`\nMatching pass at ${QUEUE_SIZE} queued sockets (median of ${RUNS} runs)\n`);
+  console.log('scenario                 |       ms | pairs');
+  console.log('-------------------------|----------|------');
+
+  for (const scenario of PASS_SCENARIOS) {
+    const times: number[] = [];
+    let pairs = 0;
+
+    for (let r = 0; r < RUNS; r++) {
+      const start = Date.now();
+      const users = makeUnpairableUsers(QUEUE_SIZE, start);
+      const history = makeHistory(users, start);
+      const order = QueueOrder.from(users);
+      const fresh = new Set<PassUser>(scenario.allFresh ? order.values() : []);
+      const now = start + TICK_MS;
+      for (const user of scenario.added(now)) {
+        order.insert(user);
+        fresh.add(user);
+      }
+
+      const t = performance.now();
+      pairs = matchingPass(order, fresh, history, start, now);
+      times.push(performance.now() - t);
+    }
+
+    console.log(`${scenario.name.padEnd(24)} | ${median(times).toFixed(2).padStart(8)} | ${String(pairs).padStart(5)}`);
+  }
+}
+
+run();
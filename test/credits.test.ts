@@ -0,0 +1,129 @@
+/// <reference types="node" />
+
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import {
+  consumeCredits,
+  FREE_DAILY_MATCHES,
+  getCreditBalance,
+  purchaseGrantStatements,
+  refundCredits,
+  settlePurchaseBalance,
+} from '../worker/credits';
+import { createTestEnv, queryRows, type TestEnv } from './env';
+
+const WALLET = '0xabc0000000000000000000000000000000000001';
+
+let t: TestEnv;
+
+beforeEach(async () => {
+  t = await createTestEnv();
+});
+
+function grantPurchased(amount: number, reference = 'seed'): void {
+  t.db.run(
+    `INSERT INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+     VALUES (?, 'grant', 'purchased', ?, ?, ?)`,
+    [WALLET, amount, `payment:${reference}`, Date.now()]
+  );
+}
+
+function consumption(id: string): Record<string, number> {
+  const rows = queryRows(
+    t.db,
+    "SELECT source, amount FROM credit_ledger WHERE wallet_address = ? AND reference = ? AND kind = 'consume'",
+    [WALLET, id]
+  );
+  return Object.fromEntries(rows.map(row => [row.source as string, row.amount as number]));
+}
+
+// Complete a pending payment and grant its credits in one batch, as
+// settlePayment does
+async function settle(reference: string, amount: number) {
+  const results = await t.env.DB.batch([
+    t.env.DB.prepare("UPDATE payments SET status = 'completed' WHERE reference_id = ? AND status = 'pending'").bind(reference),
+    ...purchaseGrantStatements(t.env, WALLET, amount, reference),
+  ]);
+  return settlePurchaseBalance(t.env, WALLET, results[results.length - 1]);
+}
+
+describe('getCreditBalance', () => {
+  it("grants today's free credits once", async () => {
+    assert.deepEqual(await getCreditBalance(t.env, WALLET), { free: FREE_DAILY_MATCHES, purchased: 0 });
+    t.cache.values.clear();
+    assert.deepEqual(await getCreditBalance(t.env, WALLET), { free: FREE_DAILY_MATCHES, purchased: 0 });
+    assert.equal(queryRows(t.db, "SELECT 1 FROM credit_ledger WHERE kind = 'grant'").length, 1);
+  });
+
+  it("expires what is left of an earlier day's grant", async () => {
+    t.db.run(
+      `INSERT INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       VALUES (?, 'grant', 'free', 5, 'daily:2000-01-01', 0), (?, 'consume', 'free', -2, 'old', 0)`,
+      [WALLET, WALLET]
+    );
+    assert.deepEqual(await getCreditBalance(t.env, WALLET), { free: FREE_DAILY_MATCHES, purchased: 0 });
+    const [expiry] = queryRows(t.db, "SELECT amount FROM credit_ledger WHERE kind = 'expire'");
+    assert.equal(expiry.amount, -3);
+  });
+});
+
+describe('consumeCredits', () => {
+  it('takes free credits before purchased ones', async () => {
+    grantPurchased(3);
+
+    const first = await consumeCredits(t.env, WALLET, 1);
+    assert.ok(first.id);
+    assert.deepEqual(consumption(first.id), { free: -1 });
+    assert.deepEqual(first.balance, { free: FREE_DAILY_MATCHES - 1, purchased: 3 });
+
+    // Four free left: a cost of five takes them all and one purchased
+    const second = await consumeCredits(t.env, WALLET, 5);
+    assert.ok(second.id);
+    assert.deepEqual(consumption(second.id), { free: -4, purchased: -1 });
+    assert.deepEqual(second.balance, { free: 0, purchased: 2 });
+
+    const third = await consumeCredits(t.env, WALLET, 2);
+    assert.ok(third.id);
+    assert.deepEqual(consumption(third.id), { purchased: -2 });
+    assert.deepEqual(third.balance, { free: 0, purchased: 0 });
+  });
+
+  it('takes nothing when the balance does not cover the cost', async () => {
+    grantPurchased(1);
+    const result = await consumeCredits(t.env, WALLET, FREE_DAILY_MATCHES + 2);
+    assert.equal(result.id, null);
+    assert.deepEqual(result.balance, { free: FREE_DAILY_MATCHES, purchased: 1 });
+    assert.equal(queryRows(t.db, "SELECT 1 FROM credit_ledger WHERE kind = 'consume'").length, 0);
+  });
+});
+
+describe('refundCredits', () => {
+  it('gives a consumption back to the sources it came from, once', async () => {
+    grantPurchased(2);
+    await consumeCredits(t.env, WALLET, 4);
+    const { id } = await consumeCredits(t.env, WALLET, 2);
+    assert.ok(id);
+
+    const expected = { free: FREE_DAILY_MATCHES - 4, purchased: 2 };
+    assert.deepEqual(await refundCredits(t.env, WALLET, id), expected);
+    assert.deepEqual(await refundCredits(t.env, WALLET, id), expected);
+  });
+});
+
+describe('purchaseGrantStatements', () => {
+  it('grants only when the statement before it changed a row', async () => {
+    t.db.run("INSERT INTO payments (reference_id, wallet_address, status) VALUES ('ref-1', ?, 'pending')", [WALLET]);
+    assert.deepEqual(await settle('ref-1', 10), { free: 0, purchased: 10 });
+
+    // Already completed: the update changes nothing, so nothing is granted
+    assert.deepEqual(await settle('ref-1', 10), { free: 0, purchased: 10 });
+    assert.deepEqual(await settle('unknown', 10), { free: 0, purchased: 10 });
+  });
+
+  it('grants once per payment reference', async () => {
+    t.db.run("INSERT INTO payments (reference_id, wallet_address, status) VALUES ('ref-1', ?, 'pending')", [WALLET]);
+    await settle('ref-1', 10);
+    t.db.run("UPDATE payments SET status = 'pending' WHERE reference_id = 'ref-1'");
+    assert.deepEqual(await settle('ref-1', 10), { free: 0, purchased: 10 });
+  });
+});
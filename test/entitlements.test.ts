@@ -0,0 +1,88 @@
+/// <reference types="node" />
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { FREE_DAILY_MATCHES } from '../worker/credits';
+import { chargeMatch, getPassExpiry, passGrantStatements, settlePassExpiry } from '../worker/entitlements';
+import { createTestEnv, queryRows, type TestEnv } from './env';
+
+const WALLET = '0xabc0000000000000000000000000000000000001';
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+let t: TestEnv;
+
+beforeEach(async () => {
+  t = await createTestEnv();
+  mock.method(Date, 'now', () => NOW);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// Complete a pending payment and grant its pass in one batch, as
+// settlePayment does
+async function settle(reference: string, hours: number) {
+  t.db.run("INSERT OR IGNORE INTO payments (reference_id, wallet_address, status) VALUES (?, ?, 'pending')", [reference, WALLET]);
+  const results = await t.env.DB.batch([
+    t.env.DB.prepare("UPDATE payments SET status = 'completed' WHERE reference_id = ? AND status = 'pending'").bind(reference),
+    ...passGrantStatements(t.env, WALLET, hours, reference),
+  ]);
+  return settlePassExpiry(t.env, WALLET, results[results.length - 1]);
+}
+
+describe('passGrantStatements', () => {
+  it('starts a pass bought during another when that one ends', async () => {
+    assert.equal(await settle('ref-1', 24), NOW + 24 * HOUR_MS);
+    assert.equal(await settle('ref-2', 24 * 7), NOW + 8 * 24 * HOUR_MS);
+
+    const passes = queryRows(t.db, 'SELECT starts_at, expires_at FROM entitlements ORDER BY starts_at');
+    assert.deepEqual(passes, [
+      { starts_at: NOW, expires_at: NOW + 24 * HOUR_MS },
+      { starts_at: NOW + 24 * HOUR_MS, expires_at: NOW + 8 * 24 * HOUR_MS },
+    ]);
+  });
+
+  it('starts now once the last pass has ended', async () => {
+    t.db.run(
+      `INSERT INTO entitlements (wallet_address, kind, reference, starts_at, expires_at, created_at)
+       VALUES (?, 'unlimited', 'payment:old', ?, ?, 0)`,
+      [WALLET, NOW - 48 * HOUR_MS, NOW - 24 * HOUR_MS]
+    );
+    assert.equal(await settle('ref-1', 24), NOW + 24 * HOUR_MS);
+  });
+
+  it('grants nothing for a payment that was already completed', async () => {
+    await settle('ref-1', 24);
+    assert.equal(await settle('ref-1', 24), NOW + 24 * HOUR_MS);
+    assert.equal(queryRows(t.db, 'SELECT 1 FROM entitlements').length, 1);
+  });
+});
+
+describe('chargeMatch', () => {
+  it('uses no credits while a pass is running', async () => {
+    await settle('ref-1', 24);
+    const charge = await chargeMatch(t.env, WALLET, 2);
+    assert.deepEqual(charge, {
+      covered: true,
+      consumptionId: null,
+      balance: { free: FREE_DAILY_MATCHES, purchased: 0 },
+      passExpiresAt: NOW + 24 * HOUR_MS,
+    });
+  });
+
+  it('consumes credits without a pass', async () => {
+    assert.equal(await getPassExpiry(t.env, WALLET), null);
+    const charge = await chargeMatch(t.env, WALLET, 2);
+    assert.equal(charge.covered, true);
+    assert.ok(charge.consumptionId);
+    assert.deepEqual(charge.balance, { free: FREE_DAILY_MATCHES - 2, purchased: 0 });
+  });
+
+  it('is not covered when the balance falls short', async () => {
+    const charge = await chargeMatch(t.env, WALLET, FREE_DAILY_MATCHES + 1);
+    assert.equal(charge.covered, false);
+    assert.equal(charge.consumptionId, null);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * In-memory Worker bindings for unit tests
+ *
+ * DB is db/schema.sql loaded into sql.js (SQLite compiled to wasm), behind
+ * the parts of the D1 API the worker uses: prepare/bind, first/all/run and
+ * batch, which like D1 runs its statements in one transaction.
+ * DAILY_MATCHES_CACHE is a Map behind get/put/delete.
+ */
+
+/// <reference types="node" />
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import type { Env } from '../worker/index';
+
+const SCHEMA = readFileSync(join(__dirname, '..', 'db', 'schema.sql'), 'utf8');
+
+type Row = Record<string, SqlValue>;
+
+class TestStatement {
+  constructor(
+    private readonly db: Database,
+    private readonly sql: string,
+    private readonly params: SqlValue[] = []
+  ) {}
+
+  bind(...values: unknown[]): TestStatement {
+    return new TestStatement(this.db, this.sql, values.map(value => (value === undefined ? null : value) as SqlValue));
+  }
+
+  async first<T = Row>(column?: string): Promise<T | null> {
+    const [row] = this.execute().results;
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T = Row>(): Promise<D1Result<T>> {
+    return this.execute() as D1Result<T>;
+  }
+
+  async run<T = Row>(): Promise<D1Result<T>> {
+    return this.execute() as D1Result<T>;
+  }
+
+  execute(): D1Result<Row> {
+    const before = this.totalChanges();
+    const results = queryRows(this.db, this.sql, this.params);
+    const changes = this.totalChanges() - before;
+    return { results, success: true, meta: { changes } } as D1Result<Row>;
+  }
+
+  // Unlike changes(), also zero for statements that wrote nothing
+  private totalChanges(): number {
+    return this.db.exec('SELECT total_changes()')[0].values[0][0] as number;
+  }
+}
+
+class TestDatabase {
+  constructor(readonly db: Database) {}
+
+  prepare(sql: string): TestStatement {
+    return new TestStatement(this.db, sql);
+  }
+
+  async batch(statements: TestStatement[]): Promise<D1Result[]> {
+    this.db.exec('BEGIN');
+    try {
+      const results = statements.map(statement => statement.execute());
+      this.db.exec('COMMIT');
+      return results;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async exec(sql: string): Promise<void> {
+    this.db.exec(sql);
+  }
+}
+
+class TestKV {
+  readonly values = new Map<string, string>();
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    const value = this.values.get(key);
+    if (value === undefined) return null;
+    return type === 'json' ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+export interface TestEnv {
+  env: Env;
+  // Direct access for setting up rows and checking what was written
+  db: Database;
+  cache: TestKV;
+}
+
+export async function createTestEnv(): Promise<TestEnv> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.exec(SCHEMA);
+  const cache = new TestKV();
+  const env = {
+    DB: new TestDatabase(db),
+    DAILY_MATCHES_CACHE: cache,
+  } as unknown as Env;
+  return { env, db, cache };
+}
+
+// Rows of a query, as objects
+export function queryRows(db: Database, sql: string, params: SqlValue[] = []): Row[] {
+  const statement = db.prepare(sql);
+  const rows: Row[] = [];
+  try {
+    statement.bind(params);
+    while (statement.step()) rows.push(statement.getAsObject());
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
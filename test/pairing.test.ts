@@ -0,0 +1,100 @@
+/// <reference types="node" />
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findPair, MATCH_TIERS, tierFor, type PairingEntry, type PairingPass } from '../worker/pairing';
+
+const NOW = 1_000_000;
+
+function user(nullifier: string, interests: string[], waitedMs = 0, groupSize: number | null = null): PairingEntry {
+  return { nullifier, joinedAt: NOW - waitedMs, interests, groupSize };
+}
+
+function pass(users: PairingEntry[], overrides: Partial<PairingPass<PairingEntry>> = {}): PairingPass<PairingEntry> {
+  return {
+    users,
+    fresh: users,
+    now: NOW,
+    allowed: () => true,
+    compatibility: () => null,
+    ...overrides,
+  };
+}
+
+function names(pair: [PairingEntry, PairingEntry] | null): string[] | null {
+  return pair && pair.map(entry => entry.nullifier);
+}
+
+describe('tierFor', () => {
+  it('relaxes the tier as the wait crosses each threshold', () => {
+    const interests = ['music'];
+    assert.equal(tierFor(user('a', interests, 0), NOW).name, 'strong');
+    assert.equal(tierFor(user('a', interests, MATCH_TIERS[1].afterMs - 1), NOW).name, 'strong');
+    assert.equal(tierFor(user('a', interests, MATCH_TIERS[1].afterMs), NOW).name, 'shared');
+    assert.equal(tierFor(user('a', interests, MATCH_TIERS[2].afterMs), NOW).name, 'open');
+  });
+
+  it('puts users without interests in the open tier straight away', () => {
+    assert.equal(tierFor(user('a', []), NOW).name, 'open');
+  });
+});
+
+describe('findPair', () => {
+  it('returns null without fresh users', () => {
+    const users = [user('a', ['music', 'film']), user('b', ['music', 'film'])];
+    assert.equal(findPair(pass(users, { fresh: [] })), null);
+  });
+
+  it('requires the overlap of the more relaxed tier of the two', () => {
+    const a = user('a', ['music', 'film']);
+    const b = user('b', ['music', 'books']);
+    assert.equal(findPair(pass([a, b])), null);
+
+    const waited = user('a', ['music', 'film'], MATCH_TIERS[1].afterMs);
+    assert.deepEqual(names(findPair(pass([waited, b]))), ['a', 'b']);
+  });
+
+  it('pairs anyone once one side is in the open tier', () => {
+    const a = user('a', ['music'], MATCH_TIERS[2].afterMs);
+    const b = user('b', ['books', 'film']);
+    assert.deepEqual(names(findPair(pass([a, b]))), ['a', 'b']);
+  });
+
+  it('skips pairs that are not allowed', () => {
+    const users = [user('a', ['music', 'film']), user('b', ['music', 'film'])];
+    assert.equal(findPair(pass(users, { allowed: () => false })), null);
+  });
+
+  it('skips users waiting for a group room', () => {
+    const users = [user('a', ['music', 'film'], 0, 4), user('b', ['music', 'film']), user('c', ['music', 'film'])];
+    assert.deepEqual(names(findPair(pass(users))), ['b', 'c']);
+  });
+
+  it('skips pairs where neither side is fresh', () => {
+    const a = user('a', ['music', 'film'], 2000);
+    const b = user('b', ['music', 'film'], 1000);
+    const c = user('c', ['books', 'film']);
+    assert.equal(findPair(pass([a, b, c], { fresh: [c] })), null);
+    assert.deepEqual(names(findPair(pass([a, b, c], { fresh: [b] }))), ['a', 'b']);
+  });
+
+  it('ranks candidates by shared tags, then quiz score', () => {
+    const a = user('a', ['music', 'film', 'books'], 3000);
+    const b = user('b', ['music', 'film'], 2000);
+    const c = user('c', ['music', 'film', 'books'], 1000);
+    assert.deepEqual(names(findPair(pass([a, b, c]))), ['a', 'c']);
+
+    // A full quiz match outweighs one shared tag
+    const compatibility = (x: PairingEntry, y: PairingEntry) => (x === b || y === b ? 100 : 0);
+    assert.deepEqual(names(findPair(pass([a, b, c], { compatibility }))), ['a', 'b']);
+  });
+
+  it('breaks ties in favour of the longest waiter', () => {
+    const users = [
+      user('a', ['music', 'film'], 3000),
+      user('b', ['music', 'film'], 2000),
+      user('c', ['music', 'film'], 1000),
+    ];
+    assert.deepEqual(names(findPair(pass(users))), ['a', 'b']);
+  });
+});
@@ -0,0 +1,93 @@
+/// <reference types="node" />
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkTransaction, isTransactionPending, type Payment, type PortalTransaction } from '../worker/payments';
+
+const EXPIRES_AT = Date.parse('2026-01-01T12:15:00Z');
+
+const payment: Payment = {
+  reference: 'ref-1',
+  wallet: '0xAbC0000000000000000000000000000000000001',
+  status: 'pending',
+  transactionId: null,
+  granted: null,
+  intent: {
+    reference: 'ref-1',
+    productId: 'matches-10',
+    matches: 10,
+    passHours: null,
+    recipient: '0xDef0000000000000000000000000000000000002',
+    tokens: [
+      { symbol: 'WLD', token_amount: '1000000000000000000' },
+      { symbol: 'USDCE', token_amount: '2000000' },
+    ],
+    description: '10 matches',
+    expiresAt: EXPIRES_AT,
+  },
+};
+
+function transaction(overrides: Partial<PortalTransaction> = {}): PortalTransaction {
+  return {
+    reference: 'ref-1',
+    transaction_status: 'mined',
+    from: payment.wallet.toLowerCase(),
+    to: payment.intent!.recipient.toLowerCase(),
+    token: 'USDCE',
+    token_amount: '2000000',
+    timestamp: '2026-01-01T12:05:00Z',
+    ...overrides,
+  };
+}
+
+describe('checkTransaction', () => {
+  it('accepts a completed transaction matching the intent in any listed token', () => {
+    assert.equal(checkTransaction(payment, transaction()), null);
+    assert.equal(checkTransaction(payment, transaction({ transaction_status: 'confirmed' })), null);
+    assert.equal(checkTransaction(payment, transaction({ token: 'WLD', token_amount: '1000000000000000000' })), null);
+  });
+
+  it('leaves the payment alone for a transaction with another reference', () => {
+    const mismatch = checkTransaction(payment, transaction({ reference: 'ref-2' }));
+    assert.equal(mismatch?.outcome, null);
+  });
+
+  it('fails the payment on a wrong status, sender, recipient, token or amount', () => {
+    const wrong: Partial<PortalTransaction>[] = [
+      { transaction_status: 'failed' },
+      { from: '0x0000000000000000000000000000000000000003' },
+      { to: '0x0000000000000000000000000000000000000003' },
+      { token: 'ETH' },
+      { token_amount: '1999999' },
+      { token_amount: 'not a number' },
+      { token_amount: undefined },
+    ];
+    for (const overrides of wrong) {
+      assert.equal(checkTransaction(payment, transaction(overrides))?.outcome, 'failed', JSON.stringify(overrides));
+    }
+  });
+
+  it('fails a payment without an intent', () => {
+    assert.equal(checkTransaction({ ...payment, intent: null }, transaction())?.outcome, 'failed');
+  });
+
+  it('expires a payment made after the intent expired', () => {
+    const late = transaction({ timestamp: '2026-01-01T12:16:00Z' });
+    assert.equal(checkTransaction(payment, late, EXPIRES_AT - 1000)?.outcome, 'expired');
+  });
+
+  it('checks the expiry against now without a usable timestamp', () => {
+    for (const timestamp of [undefined, '', 'yesterday']) {
+      const tx = transaction({ timestamp });
+      assert.equal(checkTransaction(payment, tx, EXPIRES_AT - 1000), null);
+      assert.equal(checkTransaction(payment, tx, EXPIRES_AT + 1000)?.outcome, 'expired');
+    }
+  });
+});
+
+describe('isTransactionPending', () => {
+  it('is only true for transactions not on chain yet', () => {
+    assert.equal(isTransactionPending(transaction({ transaction_status: 'pending' })), true);
+    assert.equal(isTransactionPending(transaction()), false);
+  });
+});
@@ -0,0 +1,85 @@
+/// <reference types="node" />
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareEntries, displayPosition, QueueOrder, type QueueEntry } from '../worker/queue-order';
+
+function entry(nullifier: string, joinedAt: number): QueueEntry {
+  return { nullifier, joinedAt };
+}
+
+function changed(order: QueueOrder<QueueEntry>, since = 0, now = 0, thresholds: number[] = []): string[] {
+  const visited: string[] = [];
+  order.forEachChanged(since, now, thresholds, item => visited.push(item.nullifier));
+  return visited;
+}
+
+describe('compareEntries', () => {
+  it('orders by join time, then nullifier', () => {
+    assert.ok(compareEntries(entry('b', 1), entry('a', 2)) < 0);
+    assert.ok(compareEntries(entry('a', 1), entry('b', 1)) < 0);
+    assert.equal(compareEntries(entry('a', 1), entry('a', 1)), 0);
+  });
+});
+
+describe('displayPosition', () => {
+  it('is exact up to 100 and rounded up further back', () => {
+    assert.equal(displayPosition(1), 1);
+    assert.equal(displayPosition(100), 100);
+    assert.equal(displayPosition(101), 110);
+    assert.equal(displayPosition(1000), 1000);
+    assert.equal(displayPosition(1001), 1100);
+  });
+});
+
+describe('QueueOrder', () => {
+  it('keeps entries oldest first', () => {
+    const order = QueueOrder.from([entry('c', 3), entry('a', 1)]);
+    assert.equal(order.insert(entry('b', 2)), 1);
+    assert.deepEqual(order.values().map(item => item.nullifier), ['a', 'b', 'c']);
+    assert.equal(order.size, 3);
+  });
+
+  it('finds and removes entries by nullifier and join time', () => {
+    const order = QueueOrder.from([entry('a', 1), entry('b', 2)]);
+    assert.equal(order.indexOf(entry('b', 2)), 1);
+    assert.equal(order.indexOf(entry('b', 3)), -1);
+    assert.equal(order.remove(entry('b', 3)), false);
+    assert.equal(order.remove(entry('a', 1)), true);
+    assert.deepEqual(order.values().map(item => item.nullifier), ['b']);
+    assert.equal(order.indexOf(entry('b', 2)), 0);
+  });
+
+  it('visits only entries from the first changed position', () => {
+    const order = QueueOrder.from([entry('a', 1), entry('b', 2), entry('c', 3), entry('d', 4)]);
+    assert.deepEqual(changed(order), ['a', 'b', 'c', 'd']);
+    assert.deepEqual(changed(order), []);
+
+    order.remove(entry('c', 3));
+    assert.deepEqual(changed(order), ['d']);
+
+    order.insert(entry('e', 5));
+    order.insert(entry('f', 2));
+    assert.deepEqual(changed(order), ['f', 'd', 'e']);
+  });
+
+  it('visits entries whose wait crossed a threshold since the last call', () => {
+    const order = QueueOrder.from([entry('a', 100), entry('b', 200), entry('c', 300)]);
+    changed(order);
+
+    // Between 1150 and 1250, a 1000 ms wait is reached by whoever joined in (150, 250]
+    assert.deepEqual(changed(order, 1150, 1250, [1000]), ['b']);
+    assert.deepEqual(changed(order, 1000, 1300, [1000, 1100]), ['a', 'b', 'c']);
+
+    const crossed: string[] = [];
+    order.forEachCrossing(1250, 1350, [1000], item => crossed.push(item.nullifier));
+    assert.deepEqual(crossed, ['c']);
+  });
+
+  it('visits every entry after markAllDirty', () => {
+    const order = QueueOrder.from([entry('a', 1), entry('b', 2)]);
+    changed(order);
+    order.markAllDirty();
+    assert.deepEqual(changed(order), ['a', 'b']);
+  });
+});
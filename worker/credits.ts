@@ -0,0 +1,210 @@
+/**
+ * Match credits
+ *
+ * Every change to a wallet's credits is an entry in the D1 `credit_ledger`
+ * table, and the balance is the sum of its entries. Credits come from two
+ * sources, tracked separately:
+ *
+ * - `free`: FREE_DAILY_MATCHES granted each UTC day. The grant is written
+ *   lazily, the first time the balance is needed that day, after an
+ *   `expire` entry for whatever was left of the previous grant.
+ * - `purchased`: granted by verified payments (see payments.ts); they
+ *   never expire.
+ *
+ * Matches consume free credits first. A consumption has an id, and a
+ * pairing that falls through is refunded against it. Entries are unique
+ * per (wallet, reference, source), so grants, expiries and refunds can't
+ * be applied twice. Balances are cached in KV for the MatchingQueue quota
+ * check and refreshed on every write.
+ */
+
+import type { Env } from './index';
+import type { CreditBalance } from '../lib/protocol';
+
+export type CreditSource = 'free' | 'purchased';
+
+export type LedgerKind = 'grant' | 'consume' | 'expire' | 'refund';
+
+// Free matches per UTC day
+export const FREE_DAILY_MATCHES = 5;
+
+// A group room costs this many credits, whatever its size
+export const GROUP_MATCH_COST = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CACHE_TTL_SECONDS = 3600;
+
+export function getTodayKey(): string {
+  const now = new Date();
+  const y = now.getUTCFullYear();
+  const m = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(now.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function totalCredits(balance: CreditBalance): number {
+  return balance.free + balance.purchased;
+}
+
+// Free matches used today, as the API and protocol used to count them
+export function freeMatchesUsed(balance: CreditBalance): number {
+  return Math.max(0, FREE_DAILY_MATCHES - balance.free);
+}
+
+function creditCacheKey(wallet: string): string {
+  return `credits:${wallet}`;
+}
+
+// Cached with the day it was computed on: a new day needs a new grant
+async function cacheCreditBalance(env: Env, wallet: string, balance: CreditBalance): Promise<void> {
+  await env.DAILY_MATCHES_CACHE.put(
+    creditCacheKey(wallet),
+    JSON.stringify({ ...balance, date: getTodayKey() }),
+    { expirationTtl: CACHE_TTL_SECONDS }
+  );
+}
+
+function balanceStatement(env: Env, wallet: string): D1PreparedStatement {
+  return env.DB.prepare(
+    `SELECT
+       COALESCE(SUM(CASE WHEN source = 'free' THEN amount END), 0) AS free,
+       COALESCE(SUM(CASE WHEN source = 'purchased' THEN amount END), 0) AS purchased
+     FROM credit_ledger WHERE wallet_address = ?`
+  ).bind(wallet);
+}
+
+function readBalance(result: D1Result): CreditBalance {
+  const row = result.results[0] as { free?: number; purchased?: number } | undefined;
+  return { free: row?.free ?? 0, purchased: row?.purchased ?? 0 };
+}
+
+/**
+ * Today's free grant, preceded by the expiry of the previous one. Both are
+ * no-ops once today's grant exists; run them in the same batch.
+ */
+function dailyGrantStatements(env: Env, wallet: string): D1PreparedStatement[] {
+  const today = getTodayKey();
+  const now = Date.now();
+  const endOfDay = now - (now % DAY_MS) + DAY_MS;
+  return [
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       SELECT ?, 'expire', 'free', -remaining, ?, ?
+       FROM (
+         SELECT COALESCE(SUM(amount), 0) AS remaining
+         FROM credit_ledger WHERE wallet_address = ? AND source = 'free'
+       )
+       WHERE remaining > 0
+         AND NOT EXISTS (SELECT 1 FROM credit_ledger WHERE wallet_address = ? AND reference = ?)`
+    ).bind(wallet, `expire:${today}`, now, wallet, wallet, `daily:${today}`),
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO credit_ledger (wallet_address, kind, source, amount, reference, expires_at, created_at)
+       VALUES (?, 'grant', 'free', ?, ?, ?, ?)`
+    ).bind(wallet, FREE_DAILY_MATCHES, `daily:${today}`, endOfDay, now),
+  ];
+}
+
+export async function getCreditBalance(env: Env, wallet: string): Promise<CreditBalance> {
+  const cached = await env.DAILY_MATCHES_CACHE.get(creditCacheKey(wallet), 'json') as
+    (CreditBalance & { date?: string }) | null;
+  if (cached && cached.date === getTodayKey()) {
+    return { free: cached.free, purchased: cached.purchased };
+  }
+
+  const results = await env.DB.batch([...dailyGrantStatements(env, wallet), balanceStatement(env, wallet)]);
+  const balance = readBalance(results[results.length - 1]);
+  await cacheCreditBalance(env, wallet, balance);
+  return balance;
+}
+
+/**
+ * Atomically consume `cost` credits, free ones first. The inserts are
+ * guarded by the balance, so nothing is taken unless all of `cost` is
+ * covered. Returns the consumption id (for refunds), null if the balance
+ * doesn't cover it, and the balance after.
+ */
+export async function consumeCredits(
+  env: Env,
+  wallet: string,
+  cost: number
+): Promise<{ id: string | null; balance: CreditBalance }> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+
+  const results = await env.DB.batch([
+    ...dailyGrantStatements(env, wallet),
+    env.DB.prepare(
+      `INSERT INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       SELECT ?, 'consume', 'free', -MIN(?, free), ?, ?
+       FROM (
+         SELECT
+           COALESCE(SUM(CASE WHEN source = 'free' THEN amount END), 0) AS free,
+           COALESCE(SUM(amount), 0) AS total
+         FROM credit_ledger WHERE wallet_address = ?
+       )
+       WHERE free > 0 AND total >= ?`
+    ).bind(wallet, cost, id, now, wallet, cost),
+    // Whatever the free credits didn't cover
+    env.DB.prepare(
+      `INSERT INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       SELECT ?, 'consume', 'purchased', -(? - used), ?, ?
+       FROM (
+         SELECT
+           COALESCE((SELECT -SUM(amount) FROM credit_ledger WHERE wallet_address = ? AND reference = ?), 0) AS used,
+           COALESCE((SELECT SUM(amount) FROM credit_ledger WHERE wallet_address = ? AND source = 'purchased'), 0) AS purchased
+       )
+       WHERE ? - used > 0 AND purchased >= ? - used`
+    ).bind(wallet, cost, id, now, wallet, id, wallet, cost, cost),
+    env.DB.prepare(
+      'SELECT COALESCE(-SUM(amount), 0) AS consumed FROM credit_ledger WHERE wallet_address = ? AND reference = ?'
+    ).bind(wallet, id),
+    balanceStatement(env, wallet),
+  ]);
+
+  const consumed = (results[results.length - 2].results[0] as { consumed?: number } | undefined)?.consumed ?? 0;
+  const balance = readBalance(results[results.length - 1]);
+  await cacheCreditBalance(env, wallet, balance);
+  return { id: consumed === cost ? id : null, balance };
+}
+
+// Give back a consumption for a pairing that did not go through; refunding
+// the same consumption twice is a no-op
+export async function refundCredits(env: Env, wallet: string, consumptionId: string): Promise<CreditBalance> {
+  const [, result] = await env.DB.batch([
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       SELECT wallet_address, 'refund', source, -amount, 'refund:' || reference, ?
+       FROM credit_ledger
+       WHERE wallet_address = ? AND reference = ? AND kind = 'consume'`
+    ).bind(Date.now(), wallet, consumptionId),
+    balanceStatement(env, wallet),
+  ]);
+
+  const balance = readBalance(result);
+  await cacheCreditBalance(env, wallet, balance);
+  return balance;
+}
+
+/**
+ * Statements granting `amount` purchased credits for a payment, for the
+ * caller's batch: the grant only applies if the statement right before
+ * it changed a row, and only once per payment reference. The second
+ * statement reads the balance after.
+ */
+export function purchaseGrantStatements(env: Env, wallet: string, amount: number, reference: string): D1PreparedStatement[] {
+  return [
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO credit_ledger (wallet_address, kind, source, amount, reference, created_at)
+       SELECT ?, 'grant', 'purchased', ?, ?, ? WHERE changes() = 1`
+    ).bind(wallet, amount, `payment:${reference}`, Date.now()),
+    balanceStatement(env, wallet),
+  ];
+}
+
+// Read the balance out of purchaseGrantStatements' results and cache it
+export async function settlePurchaseBalance(env: Env, wallet: string, result: D1Result): Promise<CreditBalance> {
+  const balance = readBalance(result);
+  await cacheCreditBalance(env, wallet, balance);
+  return balance;
+}
@@ -0,0 +1,110 @@
+/**
+ * Unlimited passes
+ *
+ * A pass bought with a payment is an entry in the D1 `entitlements` table
+ * with a start and an expiry. While one is running, matches don't use
+ * credits; once it expires, matching falls back to the free daily
+ * allowance and purchased credits with nothing to clean up. A pass bought
+ * while another is running starts when that one ends, so a wallet's
+ * passes always form one unbroken stretch. The current expiry is cached
+ * in KV next to the credit balance and refreshed when a pass is granted.
+ */
+
+import type { Env } from './index';
+import type { CreditBalance } from '../lib/protocol';
+import { consumeCredits, getCreditBalance } from './credits';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const CACHE_TTL_SECONDS = 3600;
+
+// What paying for a match came to
+export interface MatchCharge {
+  // Whether a pass or the balance covered it
+  covered: boolean;
+  // Consumption to refund if the match falls through; null when nothing
+  // was consumed
+  consumptionId: string | null;
+  balance: CreditBalance;
+  passExpiresAt: number | null;
+}
+
+function passCacheKey(wallet: string): string {
+  return `pass:${wallet}`;
+}
+
+async function cachePassExpiry(env: Env, wallet: string, expiresAt: number | null): Promise<void> {
+  await env.DAILY_MATCHES_CACHE.put(passCacheKey(wallet), JSON.stringify({ expiresAt }), {
+    expirationTtl: CACHE_TTL_SECONDS,
+  });
+}
+
+function passExpiryStatement(env: Env, wallet: string, now: number): D1PreparedStatement {
+  return env.DB.prepare(
+    `SELECT MIN(starts_at) AS starts_at, MAX(expires_at) AS expires_at
+     FROM entitlements WHERE wallet_address = ? AND kind = 'unlimited' AND expires_at > ?`
+  ).bind(wallet, now);
+}
+
+function readPassExpiry(result: D1Result, now: number): number | null {
+  const row = result.results[0] as { starts_at: number | null; expires_at: number | null } | undefined;
+  if (!row || row.starts_at === null || row.expires_at === null || row.starts_at > now) return null;
+  return row.expires_at;
+}
+
+// When the running pass ends, or null without one
+export async function getPassExpiry(env: Env, wallet: string): Promise<number | null> {
+  const now = Date.now();
+  const cached = await env.DAILY_MATCHES_CACHE.get(passCacheKey(wallet), 'json') as
+    { expiresAt?: number | null } | null;
+  if (cached && cached.expiresAt !== undefined) {
+    return cached.expiresAt !== null && cached.expiresAt > now ? cached.expiresAt : null;
+  }
+
+  const expiresAt = readPassExpiry(await passExpiryStatement(env, wallet, now).run(), now);
+  await cachePassExpiry(env, wallet, expiresAt);
+  return expiresAt;
+}
+
+/**
+ * Statements granting a pass of `hours` for a payment, for the caller's
+ * batch: like purchaseGrantStatements, the grant only applies if the
+ * statement right before it changed a row, and only once per payment
+ * reference. The second statement reads the pass expiry after.
+ */
+export function passGrantStatements(env: Env, wallet: string, hours: number, reference: string): D1PreparedStatement[] {
+  const now = Date.now();
+  return [
+    env.DB.prepare(
+      `INSERT OR IGNORE INTO entitlements (wallet_address, kind, reference, starts_at, expires_at, created_at)
+       SELECT ?, 'unlimited', ?, start, start + ?, ?
+       FROM (
+         SELECT MAX(?, COALESCE((SELECT MAX(expires_at) FROM entitlements WHERE wallet_address = ? AND kind = 'unlimited'), 0)) AS start
+       )
+       WHERE changes() = 1`
+    ).bind(wallet, `payment:${reference}`, hours * HOUR_MS, now, now, wallet),
+    passExpiryStatement(env, wallet, now),
+  ];
+}
+
+// Read the expiry out of passGrantStatements' results and cache it
+export async function settlePassExpiry(env: Env, wallet: string, result: D1Result): Promise<number | null> {
+  const expiresAt = readPassExpiry(result, Date.now());
+  await cachePassExpiry(env, wallet, expiresAt);
+  return expiresAt;
+}
+
+/**
+ * Pay for a match: free while a pass is running, otherwise `cost` credits
+ * (see consumeCredits). A `cost` of 0 only reads the balance.
+ */
+export async function chargeMatch(env: Env, wallet: string, cost: number): Promise<MatchCharge> {
+  const passExpiresAt = await getPassExpiry(env, wallet);
+  if (passExpiresAt !== null || cost === 0) {
+    const balance = await getCreditBalance(env, wallet);
+    return { covered: true, consumptionId: null, balance, passExpiresAt };
+  }
+
+  const { id, balance } = await consumeCredits(env, wallet, cost);
+  return { covered: id !== null, consumptionId: id, balance, passExpiresAt: null };
+}
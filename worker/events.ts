@@ -0,0 +1,212 @@
+/**
+ * Scheduled matching events
+ *
+ * An event is a time-boxed speed-matching session, created by an admin
+ * in the D1 `events` table. A cron trigger runs `runEventSchedule` every
+ * minute: events whose start has come are opened, those past their end
+ * closed. Each event gets its own MatchingQueue instance (shard
+ * `event:<id>`), which pairs everyone waiting once per round and re-pairs
+ * them every `round_minutes`, never putting the same two humans together
+ * twice in one event.
+ */
+
+import type { Env } from './index';
+import { getQueue } from './shards';
+
+export type EventStatus = 'scheduled' | 'open' | 'closed';
+
+export interface MatchingEvent {
+  id: number;
+  title: string;
+  description: string | null;
+  startsAt: number;
+  endsAt: number;
+  roundMinutes: number;
+  status: EventStatus;
+}
+
+export interface EventInput {
+  title: string;
+  description: string | null;
+  startsAt: number;
+  endsAt: number;
+  roundMinutes: number;
+}
+
+// What an event's MatchingQueue needs to run its rounds
+export interface EventConfig {
+  id: number;
+  title: string;
+  startsAt: number;
+  endsAt: number;
+  roundMs: number;
+}
+
+export const MAX_EVENT_TITLE = 80;
+export const MAX_EVENT_DESCRIPTION = 280;
+
+// A round must leave time for the ready-check and both decisions
+export const MIN_ROUND_MINUTES = 3;
+export const MAX_ROUND_MINUTES = 30;
+const MAX_EVENT_MS = 12 * 60 * 60 * 1000;
+
+// How many upcoming events /api/events lists
+const UPCOMING_LIMIT = 20;
+
+interface EventRow {
+  id: number;
+  title: string;
+  description: string | null;
+  starts_at: number;
+  ends_at: number;
+  round_minutes: number;
+  status: EventStatus;
+}
+
+function toEvent(row: EventRow): MatchingEvent {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    roundMinutes: row.round_minutes,
+    status: row.status,
+  };
+}
+
+export function eventShard(id: number): string {
+  return `event:${id}`;
+}
+
+export function eventConfig(event: MatchingEvent): EventConfig {
+  return {
+    id: event.id,
+    title: event.title,
+    startsAt: event.startsAt,
+    endsAt: event.endsAt,
+    roundMs: event.roundMinutes * 60 * 1000,
+  };
+}
+
+// Validate an admin's new event; returns the reason when it's unusable
+export function parseEventInput(body: unknown, now: number): EventInput | string {
+  if (typeof body !== 'object' || body === null) return 'Invalid event';
+  const { title, description, starts_at, ends_at, round_minutes } = body as Record<string, unknown>;
+
+  if (typeof title !== 'string' || !title.trim() || title.trim().length > MAX_EVENT_TITLE) {
+    return `title must be 1-${MAX_EVENT_TITLE} characters`;
+  }
+  if (description !== undefined && description !== null
+    && (typeof description !== 'string' || description.length > MAX_EVENT_DESCRIPTION)) {
+    return `description must be at most ${MAX_EVENT_DESCRIPTION} characters`;
+  }
+  if (!Number.isInteger(starts_at) || !Number.isInteger(ends_at)) {
+    return 'starts_at and ends_at must be Unix epoch milliseconds';
+  }
+  const startsAt = starts_at as number;
+  const endsAt = ends_at as number;
+  if (endsAt <= now) return 'The event must end in the future';
+  if (endsAt <= startsAt || endsAt - startsAt > MAX_EVENT_MS) {
+    return 'ends_at must be after starts_at, at most 12 hours later';
+  }
+  if (!Number.isInteger(round_minutes)
+    || (round_minutes as number) < MIN_ROUND_MINUTES
+    || (round_minutes as number) > MAX_ROUND_MINUTES) {
+    return `round_minutes must be ${MIN_ROUND_MINUTES}-${MAX_ROUND_MINUTES}`;
+  }
+
+  return {
+    title: title.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : null,
+    startsAt,
+    endsAt,
+    roundMinutes: round_minutes as number,
+  };
+}
+
+export async function createEvent(env: Env, input: EventInput): Promise<MatchingEvent> {
+  const row = await env.DB.prepare(
+    `INSERT INTO events (title, description, starts_at, ends_at, round_minutes, status, created_at)
+     VALUES (?, ?, ?, ?, ?, 'scheduled', ?)
+     RETURNING id, title, description, starts_at, ends_at, round_minutes, status`
+  ).bind(input.title, input.description, input.startsAt, input.endsAt, input.roundMinutes, Date.now())
+    .first<EventRow>();
+  if (!row) throw new Error('Event insert returned no row');
+  return toEvent(row);
+}
+
+// Every event, newest first, for admins
+export async function listEvents(env: Env): Promise<MatchingEvent[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, title, description, starts_at, ends_at, round_minutes, status
+     FROM events ORDER BY starts_at DESC LIMIT 100`
+  ).all<EventRow>();
+  return results.map(toEvent);
+}
+
+// Open and upcoming events, soonest first
+export async function listUpcomingEvents(env: Env, now: number): Promise<MatchingEvent[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, title, description, starts_at, ends_at, round_minutes, status
+     FROM events
+     WHERE status IN ('scheduled', 'open') AND ends_at > ?
+     ORDER BY starts_at ASC LIMIT ?`
+  ).bind(now, UPCOMING_LIMIT).all<EventRow>();
+  return results.map(toEvent);
+}
+
+// Events open right now, whose queues have people waiting in them
+export async function listOpenEvents(env: Env, now: number): Promise<MatchingEvent[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, title, description, starts_at, ends_at, round_minutes, status
+     FROM events WHERE status = 'open' AND ends_at > ?`
+  ).bind(now).all<EventRow>();
+  return results.map(toEvent);
+}
+
+// The event if it is open for joining right now
+export async function getOpenEvent(env: Env, id: number, now: number): Promise<MatchingEvent | null> {
+  const row = await env.DB.prepare(
+    `SELECT id, title, description, starts_at, ends_at, round_minutes, status
+     FROM events WHERE id = ? AND status = 'open' AND ends_at > ?`
+  ).bind(id, now).first<EventRow>();
+  return row ? toEvent(row) : null;
+}
+
+async function notifyQueue(env: Env, event: MatchingEvent, action: 'open' | 'close'): Promise<void> {
+  const res = await getQueue(env, eventShard(event.id)).fetch(`https://matching-queue/event/${action}`, {
+    method: 'POST',
+    body: JSON.stringify(eventConfig(event)),
+  });
+  if (!res.ok) throw new Error(`Event queue refused ${action}: ${res.status}`);
+}
+
+/**
+ * Open events whose start has come and close those that are over. The
+ * queue is told first and the row updated after, so an event is never
+ * joinable in D1 before its queue knows about it; a failure is retried on
+ * the next run.
+ */
+export async function runEventSchedule(env: Env, now: number): Promise<void> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, title, description, starts_at, ends_at, round_minutes, status
+     FROM events
+     WHERE (status = 'scheduled' AND starts_at <= ?) OR (status = 'open' AND ends_at <= ?)`
+  ).bind(now, now).all<EventRow>();
+
+  for (const event of results.map(toEvent)) {
+    const next: EventStatus = event.endsAt <= now ? 'closed' : 'open';
+    try {
+      // A scheduled event that is already over never opened
+      if (event.status === 'open' || next === 'open') {
+        await notifyQueue(env, event, next === 'open' ? 'open' : 'close');
+      }
+      await env.DB.prepare(
+        'UPDATE events SET status = ? WHERE id = ? AND status = ?'
+      ).bind(next, event.id, event.status).run();
+    } catch (error) {
+      console.error(`Failed to ${next === 'open' ? 'open' : 'close'} event ${event.id}:`, error);
+    }
+  }
+}
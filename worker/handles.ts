@@ -0,0 +1,24 @@
+/**
+ * Ephemeral handles
+ *
+ * Matched users are introduced under a throwaway handle instead of their
+ * World App username, which stays hidden until both sides choose to connect.
+ */
+
+const ADJECTIVES = [
+  'Amber', 'Bold', 'Bright', 'Calm', 'Clever', 'Cosmic', 'Curious', 'Gentle',
+  'Golden', 'Happy', 'Kind', 'Lucky', 'Mellow', 'Misty', 'Quiet', 'Swift',
+];
+
+const NOUNS = [
+  'Badger', 'Comet', 'Falcon', 'Fox', 'Heron', 'Koala', 'Lynx', 'Maple',
+  'Meteor', 'Otter', 'Owl', 'Panda', 'Pebble', 'Raven', 'River', 'Tiger',
+];
+
+export function generateHandle(): string {
+  const values = new Uint32Array(3);
+  crypto.getRandomValues(values);
+  const adjective = ADJECTIVES[values[0] % ADJECTIVES.length];
+  const noun = NOUNS[values[1] % NOUNS.length];
+  return `${adjective} ${noun} ${10 + (values[2] % 90)}`;
+}
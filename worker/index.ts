@@ -5,21 +5,117 @@
  * Domain: world.mind-alike.com
  *
  * Routes:
- * - /ws?username=xxx → WebSocket for matching queue
+ * - /ws → WebSocket for matching queue (requires session)
  * - /api/nonce → Generate SIWE nonce
  * - /api/verify-siwe → Verify SIWE signature
  * - /api/verify-worldid → Verify World ID proof
+ * - /api/session → Current session
+ * - /api/session/refresh → Re-issue the session token
+ * - /api/session/logout → Revoke the session and clear its cookie
+ * - /api/interests → Interest catalog and the user's saved tags
+ * - /api/language → Matching language catalog and the user's choice
+ * - /api/quiz → Active compatibility quiz and the user's answers
+ * - /api/quiz/answers → Save quiz answers
  * - /api/matches/today → Get today's match count
- * - /api/matches/increment → Increment today's match count
- * - /api/payments/create → Record pending payment reference
+ * - /api/credits → Free and purchased credit balance, and any running pass
+ * - /api/matches/history → Past matches of the signed-in human
+ * - /api/reports → Report (and block) a past match partner
+ * - /api/blocks → Block a past match partner
+ * - /api/products → Match packs on sale
+ * - /api/payments/create → Create a payment intent for a product
  * - /api/payments/verify → Verify payment with World Developer Portal API
- * - /api/queue-status → Queue statistics
+ * - /api/queue-status → Queue statistics across all shards
+ * - /api/events → Open and upcoming matching events
+ * - /api/admin/events → List or create matching events (admin token)
  * - /health → Health check
  * - /* → Static assets (Next.js)
+ *
+ * The cron trigger (scheduled) opens and closes matching events.
  */
 
+import { verifySiweMessage } from './siwe';
+import { createWorldIdVerifier, isWorldIdProof } from './worldid';
+import {
+  clearSessionCookie,
+  getCookie,
+  getSession,
+  sessionCookie,
+  signSession,
+  type Session,
+  type SessionClaims,
+} from './session';
+import { CLIENT_COOKIE, CLIENT_COOKIE_MAX_AGE_SECONDS, NONCE_TTL_MS } from './nonce-store';
+import { resolveUsername } from './usernames';
+
+import { freeMatchesUsed, getCreditBalance, totalCredits, FREE_DAILY_MATCHES, GROUP_MATCH_COST } from './credits';
+import {
+  checkTransaction,
+  createPaymentIntent,
+  fetchPortalTransaction,
+  getPayment,
+  isTransactionPending,
+  isTransactionUsed,
+  markPaymentExpired,
+  markPaymentFailed,
+  settlePayment,
+  type Payment,
+  type PaymentSettlement,
+} from './payments';
+import { getProduct, listProducts } from './products';
+import { getPassExpiry } from './entitlements';
+import { QUEUE_IDENTITY_HEADERS, QUEUE_PROTOCOL_HEADER } from './matching-queue';
+import {
+  CLOSE_CODES,
+  encodeMessage,
+  errorMessage,
+  negotiateVersion,
+  PROTOCOL_VERSION_PARAM,
+  type ServerMessage,
+} from '../lib/protocol';
+import { getUserInterests, INTEREST_CATALOG, MAX_INTERESTS } from './interests';
+import { getActiveQuiz, getUserAnswers, sanitizeAnswers, saveUserAnswers } from './quiz';
+import { getMatchHistory } from './match-history';
+import {
+  allShards,
+  getQueue,
+  getUserLanguage,
+  isLanguage,
+  languageFromHeader,
+  resolveShard,
+  saveUserLanguage,
+  GLOBAL_SHARD,
+  LANGUAGE_CATALOG,
+} from './shards';
+import {
+  banMessage,
+  blockUser,
+  getActiveBan,
+  getMatchPartner,
+  isReportReason,
+  submitReport,
+  MAX_REPORT_DETAILS,
+  REPORT_REASONS,
+  type Ban,
+} from './safety';
+import {
+  createEvent,
+  eventShard,
+  getOpenEvent,
+  listEvents,
+  listOpenEvents,
+  listUpcomingEvents,
+  parseEventInput,
+  runEventSchedule,
+  type MatchingEvent,
+} from './events';
+
+export { NonceStore } from './nonce-store';
+export { MatchingQueue } from './matching-queue';
+
 export interface Env {
   MATCHING_QUEUE: DurableObjectNamespace;
+  // Single-use SIWE nonces
+  NONCE_STORE: DurableObjectNamespace;
   ASSETS: Fetcher;
   ENVIRONMENT: string;
   // D1 database for Mindalike World mini app
@@ -29,92 +125,246 @@ export interface Env {
   // Secrets for payment verification
   WORLD_APP_ID: string;
   WORLD_API_KEY: string;
+  // Address payments are made out to
+  PAYMENT_RECIPIENT?: string;
+  // SIWE: expected domain (defaults to the request host) and World Chain RPC
+  SIWE_DOMAIN?: string;
+  WORLDCHAIN_RPC_URL?: string;
+  // World ID: incognito action id and optional verify endpoint override
+  WORLD_ACTION_ID?: string;
+  WORLD_ID_VERIFY_URL?: string;
+  // HMAC key for session tokens
+  SESSION_SECRET: string;
+  // Hours before two humans can be matched again (default 24)
+  REMATCH_WINDOW_HOURS?: string;
+  // Seconds in a language/region shard before falling back to the global pool (default 60)
+  QUEUE_FALLBACK_SECONDS?: string;
+  // Bearer token for /api/admin routes; unset disables them
+  ADMIN_TOKEN?: string;
 }
 
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Upgrade, Connection',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Upgrade, Connection',
 };
 
-// Simple in-memory nonce store (per-instance)
-const nonceStore = new Map<string, { nonce: string; expires: number }>();
+// --- Queue status ----------------------------------------------------------
 
-// Generate random nonce
-function generateNonce(): string {
-  const array = new Uint8Array(16);
-  crypto.getRandomValues(array);
-  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+// /api/queue-status is public, so the aggregate over every shard and open
+// event queue is shared through KV rather than asking each on every call. Shards refresh
+// their own figures every 30 s; a minute (KV's shortest expiry) is fine.
+const QUEUE_STATUS_CACHE_KEY = 'queue-status';
+const QUEUE_STATUS_CACHE_TTL_SECONDS = 60;
+
+interface QueueStatusSummary {
+  queueSize: number;
+  online: number;
+  matchedLastHour: number;
+  shards: Record<string, number>;
+  timestamp: number;
 }
 
-// Clean expired nonces
-function cleanExpiredNonces() {
-  const now = Date.now();
-  for (const [key, value] of nonceStore.entries()) {
-    if (value.expires < now) {
-      nonceStore.delete(key);
-    }
+async function aggregateQueueStatus(env: Env, request: Request): Promise<QueueStatusSummary> {
+  const shards = allShards();
+  try {
+    for (const event of await listOpenEvents(env, Date.now())) shards.push(eventShard(event.id));
+  } catch (error) {
+    // The regular shards are still worth reporting
+    console.error('Failed to list open events:', error);
   }
+  const statuses = await Promise.all(shards.map(async shard => {
+    try {
+      const res = await getQueue(env, shard).fetch(new Request(new URL('/status', request.url), {
+        method: 'GET',
+      }));
+      return await res.json() as { queueSize: number; online: number; matchedLastHour: number };
+    } catch {
+      // An unreachable shard shouldn't hide the others
+      return { queueSize: 0, online: 0, matchedLastHour: 0 };
+    }
+  }));
+
+  const perShard: Record<string, number> = {};
+  shards.forEach((shard, index) => {
+    perShard[shard] = statuses[index].queueSize;
+  });
+
+  return {
+    queueSize: statuses.reduce((sum, status) => sum + status.queueSize, 0),
+    online: statuses.reduce((sum, status) => sum + status.online, 0),
+    matchedLastHour: statuses.reduce((sum, status) => sum + status.matchedLastHour, 0),
+    shards: perShard,
+    timestamp: Date.now(),
+  };
 }
 
-// --- Helper functions for daily matches & payments -------------------------
+// --- Helper functions for SIWE nonces --------------------------------------
+
+// Client cookie values are UUIDs we issued ourselves
+const CLIENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
 
-function getTodayKey(): string {
-  const now = new Date();
-  const y = now.getUTCFullYear();
-  const m = String(now.getUTCMonth() + 1).padStart(2, '0');
-  const d = String(now.getUTCDate()).padStart(2, '0');
-  return `${y}-${m}-${d}`;
+function getNonceStore(env: Env): DurableObjectStub {
+  return env.NONCE_STORE.get(env.NONCE_STORE.idFromName('siwe-nonces'));
 }
 
-async function getDailyMatchCount(env: Env, wallet: string): Promise<number> {
-  const today = getTodayKey();
-  const cacheKey = `daily_matches:${wallet}:${today}`;
+// Consume a nonce exactly once; false if unknown, used or expired
+async function consumeNonce(env: Env, nonce: string): Promise<boolean> {
+  const res = await getNonceStore(env).fetch('https://nonce-store/consume', {
+    method: 'POST',
+    body: JSON.stringify({ nonce }),
+  });
+  const { ok } = await res.json() as { ok: boolean };
+  return ok;
+}
+
+// --- Helper functions for sessions ------------------------------------------
 
-  const cached = await env.DAILY_MATCHES_CACHE.get(cacheKey, 'json') as { count?: number } | null;
-  if (cached && typeof cached.count === 'number') {
-    return cached.count;
+// Resolve the caller's session, or the 401 response to return instead
+async function requireSession(request: Request, env: Env): Promise<Session | Response> {
+  const session = await getSession(request, env.SESSION_SECRET);
+  if (!session || await isSessionRevoked(env, session)) {
+    return new Response(JSON.stringify({ error: 'Authentication required' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
   }
+  return session;
+}
 
-  const { results } = await env.DB.prepare(
-    'SELECT match_count FROM daily_matches WHERE wallet_address = ? AND date = ?'
-  ).bind(wallet, today).all<{ match_count: number }>();
+async function isSessionRevoked(env: Env, session: Session): Promise<boolean> {
+  const row = await env.DB.prepare(
+    'SELECT 1 AS revoked FROM revoked_sessions WHERE session_id = ?'
+  ).bind(session.sid).first<{ revoked: number }>();
+  return row !== null;
+}
 
-  const count = results?.[0]?.match_count ?? 0;
-  await env.DAILY_MATCHES_CACHE.put(cacheKey, JSON.stringify({ count }), { expirationTtl: 3600 });
-  return count;
+// Revoke `session` until it would have expired anyway, and forget
+// revocations of sessions that have since expired
+async function revokeSession(env: Env, session: Session): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await env.DB.batch([
+    env.DB.prepare(
+      'INSERT OR IGNORE INTO revoked_sessions (session_id, wallet_address, expires_at) VALUES (?, ?, ?)'
+    ).bind(session.sid, session.wallet, session.exp),
+    env.DB.prepare('DELETE FROM revoked_sessions WHERE expires_at <= ?').bind(now),
+  ]);
 }
 
-async function incrementDailyMatchCount(env: Env, wallet: string): Promise<number> {
-  const today = getTodayKey();
+// Verification state is read from D1 so a re-issued session reflects it
+async function getVerificationState(env: Env, wallet: string): Promise<{ verified: boolean; nullifierHash: string | null }> {
+  const user = await env.DB.prepare(
+    'SELECT nullifier_hash, world_id_verified FROM users WHERE wallet_address = ?'
+  ).bind(wallet).first<{ nullifier_hash?: string | null; world_id_verified?: number }>();
 
-  await env.DB.prepare(
-    `INSERT INTO daily_matches (wallet_address, date, match_count)
-     VALUES (?, ?, 1)
-     ON CONFLICT(wallet_address, date) DO UPDATE SET match_count = match_count + 1`
-  ).bind(wallet, today).run();
+  return {
+    verified: Boolean(user?.world_id_verified && user.nullifier_hash),
+    nullifierHash: user?.nullifier_hash ?? null,
+  };
+}
 
-  const { results } = await env.DB.prepare(
-    'SELECT match_count FROM daily_matches WHERE wallet_address = ? AND date = ?'
-  ).bind(wallet, today).all<{ match_count: number }>();
+// Session of a World ID verified human, with their nullifier
+async function requireHuman(request: Request, env: Env): Promise<{ session: Session; nullifierHash: string } | Response> {
+  const session = await requireSession(request, env);
+  if (session instanceof Response) return session;
 
-  const count = results?.[0]?.match_count ?? 0;
-  const cacheKey = `daily_matches:${wallet}:${today}`;
-  await env.DAILY_MATCHES_CACHE.put(cacheKey, JSON.stringify({ count }), { expirationTtl: 3600 });
-  return count;
+  const { nullifierHash } = await getVerificationState(env, session.wallet);
+  if (!nullifierHash) {
+    return new Response(JSON.stringify({ error: 'User must be verified with World ID' }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  return { session, nullifierHash };
 }
 
-async function createPaymentReference(env: Env, reference: string, wallet: string) {
-  await env.DB.prepare(
-    'INSERT OR IGNORE INTO payments (reference_id, wallet_address, status) VALUES (?, ?, ?)'
-  ).bind(reference, wallet, 'pending').run();
+// Admin routes take `Authorization: Bearer <ADMIN_TOKEN>`, compared in
+// constant time; null when allowed, otherwise the response to return
+async function requireAdmin(request: Request, env: Env): Promise<Response | null> {
+  const authorization = request.headers.get('Authorization') ?? '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice(7) : '';
+  if (env.ADMIN_TOKEN && token) {
+    const encoder = new TextEncoder();
+    const [given, expected] = await Promise.all([
+      crypto.subtle.digest('SHA-256', encoder.encode(token)),
+      crypto.subtle.digest('SHA-256', encoder.encode(env.ADMIN_TOKEN)),
+    ]);
+    const a = new Uint8Array(given);
+    const b = new Uint8Array(expected);
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    if (diff === 0) return null;
+  }
+  return new Response(JSON.stringify({ error: 'Admin access required' }), {
+    status: 401,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
-async function markPaymentStatus(env: Env, reference: string, status: string) {
-  await env.DB.prepare(
-    'UPDATE payments SET status = ? WHERE reference_id = ?'
-  ).bind(status, reference).run();
+// WebSocket clients can't read the body of a refused upgrade, so accept
+// the socket just long enough to tell them why and close it
+function rejectWebSocket(error: ServerMessage, closeCode: number, reason: string): Response {
+  const pair = new WebSocketPair();
+  const [client, server] = Object.values(pair);
+  server.accept();
+  server.send(encodeMessage(error));
+  server.close(closeCode, reason);
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+async function sessionResponse(
+  env: Env,
+  claims: SessionClaims,
+  body: Record<string, unknown> = {},
+  authAt?: number
+): Promise<Response> {
+  const { token, session } = await signSession(claims, env.SESSION_SECRET, authAt);
+  return new Response(JSON.stringify({
+    ...body,
+    session: {
+      wallet: session.wallet,
+      username: session.username,
+      verified: session.verified,
+      expires_at: session.exp * 1000,
+    },
+    token,
+  }), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Set-Cookie': sessionCookie(token),
+    },
+  });
+}
+
+// --- Helper functions for payments -----------------------------------------
+
+// The original outcome of a payment that was already settled
+async function settledPaymentResponse(env: Env, payment: Payment, transactionId: string): Promise<Response> {
+  if (payment.status === 'success' && payment.transactionId === transactionId) {
+    const credits = await getCreditBalance(env, payment.wallet);
+    return new Response(JSON.stringify({
+      success: true,
+      new_count: freeMatchesUsed(credits),
+      credits,
+      pass_expires_at: await getPassExpiry(env, payment.wallet),
+      granted: payment.granted ?? 0,
+      already_verified: true,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const error = payment.status === 'success'
+    ? 'Payment already verified with another transaction'
+    : payment.status === 'expired'
+      ? 'Paid after the payment expired. Contact support for a refund.'
+      : 'Transaction not valid';
+  return new Response(JSON.stringify({ success: false, error }), {
+    status: payment.status === 'success' ? 409 : 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
 // Main worker handler
@@ -144,34 +394,46 @@ export default {
 
     // Generate SIWE nonce
     if (url.pathname === '/api/nonce' && request.method === 'GET') {
-      cleanExpiredNonces();
-      const nonce = generateNonce();
-      const clientId = request.headers.get('CF-Connecting-IP') || 'unknown';
-      
-      // Store nonce with 5 minute expiry
-      nonceStore.set(clientId, { 
-        nonce, 
-        expires: Date.now() + 5 * 60 * 1000 
+      // Limited per browser (see nonce-store.ts); a browser without a valid
+      // client cookie gets a new one
+      const cookieClient = getCookie(request, CLIENT_COOKIE);
+      const client = cookieClient && CLIENT_ID_PATTERN.test(cookieClient) ? cookieClient : crypto.randomUUID();
+      const issued = await getNonceStore(env).fetch('https://nonce-store/issue', {
+        method: 'POST',
+        body: JSON.stringify({ client, ip: request.headers.get('CF-Connecting-IP') || 'unknown' }),
       });
 
-      return new Response(JSON.stringify({ nonce }), {
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': 'application/json',
-          'Set-Cookie': `siwe_nonce=${nonce}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=300`
-        },
-      });
+      if (!issued.ok) {
+        return new Response(issued.body, {
+          status: issued.status,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': issued.headers.get('Retry-After') || '60',
+          },
+        });
+      }
+
+      // The nonce is also bound to this browser through the cookie
+      const { nonce } = await issued.json() as { nonce: string };
+      const headers = new Headers({ ...corsHeaders, 'Content-Type': 'application/json' });
+      headers.append('Set-Cookie', `siwe_nonce=${nonce}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${NONCE_TTL_MS / 1000}`);
+      headers.append(
+        'Set-Cookie',
+        `${CLIENT_COOKIE}=${client}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${CLIENT_COOKIE_MAX_AGE_SECONDS}`
+      );
+      return new Response(JSON.stringify({ nonce }), { headers });
     }
 
     // Verify SIWE signature
     if (url.pathname === '/api/verify-siwe' && request.method === 'POST') {
       try {
         const { payload, nonce } = await request.json() as { payload: any; nonce: string };
-        const clientId = request.headers.get('CF-Connecting-IP') || 'unknown';
         
-        // Verify nonce
-        const stored = nonceStore.get(clientId);
-        if (!stored || stored.nonce !== nonce || stored.expires < Date.now()) {
+        // Verify nonce: it must match the cookie it was issued with and
+        // still be unused in the nonce store
+        const cookieNonce = getCookie(request, 'siwe_nonce');
+        if (!nonce || cookieNonce !== nonce || !(await consumeNonce(env, nonce))) {
           return new Response(JSON.stringify({ 
             status: 'error', 
             isValid: false, 
@@ -182,21 +444,54 @@ export default {
           });
         }
 
-        // Clear used nonce
-        nonceStore.delete(clientId);
+        // Parse the SIWE message, check domain/URI/chain/validity window and
+        // nonce, then verify the signer (EOA or smart wallet) on World Chain
+        const domain = env.SIWE_DOMAIN || url.host;
+        const result = await verifySiweMessage(payload, {
+          domain,
+          uri: env.SIWE_DOMAIN ? `https://${env.SIWE_DOMAIN}` : url.origin,
+          nonce,
+          rpcUrl: env.WORLDCHAIN_RPC_URL,
+        });
+
+        if (!result.ok) {
+          return new Response(JSON.stringify({ 
+            status: 'error', 
+            isValid: false, 
+            message: result.reason 
+          }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
 
-        // In production, verify the SIWE message signature properly
-        // For now, we trust the payload from MiniKit
-        const address = payload.address || '';
-        const username = payload.username || '';
+        if (!env.SESSION_SECRET) {
+          return new Response(JSON.stringify({ 
+            status: 'error', 
+            isValid: false, 
+            message: 'Server not configured for sessions' 
+          }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
 
-        return new Response(JSON.stringify({
+        // The username is looked up from the verified wallet, never taken
+        // from the client
+        const address = result.address;
+        const username = await resolveUsername(address) ?? '';
+        const verification = await getVerificationState(env, address);
+
+        return sessionResponse(env, {
+          wallet: address,
+          username,
+          ...verification,
+        }, {
           status: 'success',
           isValid: true,
           address,
           username,
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          verified: verification.verified,
         });
       } catch (e) {
         return new Response(JSON.stringify({ 
@@ -212,66 +507,115 @@ export default {
 
     // Verify World ID proof
     if (url.pathname === '/api/verify-worldid' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
       try {
         const { payload, action, signal } = await request.json() as { 
-          payload: any; 
+          payload: unknown; 
           action: string; 
           signal?: string;
           wallet_address?: string;
         };
 
-        // In production, verify with World ID cloud API
-        // https://developer.worldcoin.org/api/v1/verify/app_{app_id}
-        
-        // For development, we'll accept the verification
-        // The actual verification happens client-side in MiniKit
-        
-        const nullifierHash = payload.nullifier_hash || null;
-        
-        if (!nullifierHash) {
+        if (!isWorldIdProof(payload)) {
+          return new Response(JSON.stringify({ 
+            verified: false, 
+            error: 'Missing proof fields' 
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // The proof must be for our action and bound to the wallet signal
+        const expectedAction = env.WORLD_ACTION_ID || 'verifyuser';
+        if (action !== expectedAction) {
           return new Response(JSON.stringify({ 
             verified: false, 
-            error: 'Missing nullifier_hash' 
+            error: 'Action mismatch' 
           }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
+        // The signal is always the authenticated wallet
+        const wallet = session.wallet;
+        if (signal && signal.toLowerCase() !== wallet) {
+          return new Response(JSON.stringify({ 
+            verified: false, 
+            error: 'Signal does not match authenticated wallet' 
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const result = await createWorldIdVerifier(env).verify({
+          proof: payload,
+          action: expectedAction,
+          signal: wallet,
+        });
+
+        if (!result.ok) {
+          return new Response(JSON.stringify({ 
+            verified: false, 
+            error: result.detail,
+            code: result.code,
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const nullifierHash = result.nullifierHash;
+
         // Store nullifier_hash in database to track unique humans
-        if (signal) {
-          try {
-            // Check if nullifier_hash already exists (prevent duplicate verifications)
-            const existing = await env.DB.prepare(
-              'SELECT wallet_address FROM users WHERE nullifier_hash = ?'
-            ).bind(nullifierHash).first<{ wallet_address?: string }>();
-
-            if (existing) {
-              // Update existing user's verification status
-              await env.DB.prepare(
-                'UPDATE users SET world_id_verified = 1, wallet_address = ? WHERE nullifier_hash = ?'
-              ).bind(signal.toLowerCase(), nullifierHash).run();
-            } else {
-              // Insert or update user with nullifier_hash
-              await env.DB.prepare(
-                `INSERT INTO users (wallet_address, world_id_verified, nullifier_hash)
-                 VALUES (?, 1, ?)
-                 ON CONFLICT(wallet_address) DO UPDATE SET 
-                   world_id_verified = 1,
-                   nullifier_hash = ?`
-              ).bind(signal.toLowerCase(), nullifierHash, nullifierHash).run();
-            }
-          } catch (dbError) {
-            console.error('Database error storing nullifier_hash:', dbError);
-            // Continue even if DB update fails (non-critical)
+        try {
+          // Check if nullifier_hash already exists (prevent duplicate verifications)
+          const existing = await env.DB.prepare(
+            'SELECT wallet_address FROM users WHERE nullifier_hash = ?'
+          ).bind(nullifierHash).first<{ wallet_address?: string }>();
+
+          if (existing) {
+            // Update existing user's verification status
+            await env.DB.prepare(
+              `UPDATE users SET world_id_verified = 1, verification_level = ?, wallet_address = ?
+               WHERE nullifier_hash = ?`
+            ).bind(result.verificationLevel, wallet, nullifierHash).run();
+          } else {
+            // Insert or update user with nullifier_hash
+            await env.DB.prepare(
+              `INSERT INTO users (wallet_address, world_id_verified, nullifier_hash, verification_level)
+               VALUES (?, 1, ?, ?)
+               ON CONFLICT(wallet_address) DO UPDATE SET 
+                 world_id_verified = 1,
+                 nullifier_hash = excluded.nullifier_hash,
+                 verification_level = excluded.verification_level`
+            ).bind(wallet, nullifierHash, result.verificationLevel).run();
           }
+        } catch (dbError) {
+          console.error('Database error storing nullifier_hash:', dbError);
+          return new Response(JSON.stringify({ 
+            verified: false, 
+            error: 'Failed to record verification' 
+          }), {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
         }
         
-        return new Response(JSON.stringify({
+        // Re-issue the session so it carries the new verification state
+        return sessionResponse(env, {
+          wallet,
+          username: session.username,
+          verified: true,
+          nullifierHash,
+        }, {
           verified: true,
           nullifier_hash: nullifierHash,
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          verification_level: result.verificationLevel,
         });
       } catch (e) {
         return new Response(JSON.stringify({ 
@@ -284,55 +628,366 @@ export default {
       }
     }
 
+    // ==========================================
+    // Session
+    // ==========================================
+
+    if (url.pathname === '/api/session' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      return new Response(JSON.stringify({
+        wallet: session.wallet,
+        username: session.username,
+        verified: session.verified,
+        expires_at: session.exp * 1000,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/session/refresh' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      // The old token goes, so a leaked copy doesn't outlive the refresh
+      const verification = await getVerificationState(env, session.wallet);
+      await revokeSession(env, session);
+      return sessionResponse(env, {
+        wallet: session.wallet,
+        username: session.username,
+        ...verification,
+      }, {}, session.authAt);
+    }
+
+    if (url.pathname === '/api/session/logout' && request.method === 'POST') {
+      // The token stops working everywhere, not just in this cookie jar
+      const session = await getSession(request, env.SESSION_SECRET);
+      if (session) await revokeSession(env, session);
+
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'Set-Cookie': clearSessionCookie(),
+        },
+      });
+    }
+
+    // ==========================================
+    // Profile: interest tags
+    // ==========================================
+
+    if (url.pathname === '/api/interests' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const selected = await getUserInterests(env, session.wallet);
+      return new Response(JSON.stringify({
+        catalog: INTEREST_CATALOG,
+        selected,
+        max: MAX_INTERESTS,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/language' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const saved = await getUserLanguage(env, session.wallet);
+      return new Response(JSON.stringify({
+        catalog: LANGUAGE_CATALOG,
+        selected: saved ?? languageFromHeader(request.headers.get('Accept-Language')),
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/language' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      try {
+        const { language } = await request.json() as { language?: unknown };
+        if (!isLanguage(language)) {
+          return new Response(JSON.stringify({ error: 'Unsupported language' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        await saveUserLanguage(env, session.wallet, language);
+        return new Response(JSON.stringify({ selected: language }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      } catch {
+        return new Response(JSON.stringify({ error: 'Failed to save language' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    // ==========================================
+    // Profile: compatibility quiz
+    // ==========================================
+
+    if (url.pathname === '/api/quiz' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const quiz = await getActiveQuiz(env);
+      if (!quiz) {
+        return new Response(JSON.stringify({ error: 'No active quiz' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      const answers = await getUserAnswers(env, session.wallet, quiz);
+      return new Response(JSON.stringify({ quiz, answers }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/quiz/answers' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      try {
+        const { answers } = await request.json() as { answers?: unknown };
+        const quiz = await getActiveQuiz(env);
+        if (!quiz) {
+          return new Response(JSON.stringify({ error: 'No active quiz' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        const valid = sanitizeAnswers(quiz, answers);
+        if (Object.keys(valid).length === 0) {
+          return new Response(JSON.stringify({ error: 'No valid answers' }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        await saveUserAnswers(env, session.wallet, valid);
+        const saved = await getUserAnswers(env, session.wallet, quiz);
+        return new Response(JSON.stringify({ answers: saved }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      } catch {
+        return new Response(JSON.stringify({ error: 'Failed to save answers' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     // Queue status
     if (url.pathname === '/api/queue-status') {
-      const id = env.MATCHING_QUEUE.idFromName('global-queue');
-      const queue = env.MATCHING_QUEUE.get(id);
-      
-      const statusRequest = new Request(new URL('/status', request.url), {
-        method: 'GET',
+      let status = await env.DAILY_MATCHES_CACHE.get(QUEUE_STATUS_CACHE_KEY, 'json') as QueueStatusSummary | null;
+      if (!status) {
+        status = await aggregateQueueStatus(env, request);
+        ctx.waitUntil(
+          env.DAILY_MATCHES_CACHE.put(QUEUE_STATUS_CACHE_KEY, JSON.stringify(status), {
+            expirationTtl: QUEUE_STATUS_CACHE_TTL_SECONDS,
+          }).catch(error => {
+            console.error('Failed to cache queue status:', error);
+          })
+        );
+      }
+
+      return new Response(JSON.stringify(status), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
-      
-      return queue.fetch(statusRequest);
     }
 
     // ==========================================
-    // Freemium API: daily matches
+    // Scheduled events
     // ==========================================
 
-    if (url.pathname === '/api/matches/today' && request.method === 'GET') {
-      const wallet = url.searchParams.get('wallet');
-      if (!wallet) {
-        return new Response(JSON.stringify({ error: 'wallet required' }), {
-          status: 400,
+    if (url.pathname === '/api/events' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const events = await listUpcomingEvents(env, Date.now());
+      return new Response(JSON.stringify({ events }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/admin/events' && request.method === 'GET') {
+      const denied = await requireAdmin(request, env);
+      if (denied) return denied;
+
+      const events = await listEvents(env);
+      return new Response(JSON.stringify({ events }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/admin/events' && request.method === 'POST') {
+      const denied = await requireAdmin(request, env);
+      if (denied) return denied;
+
+      try {
+        const input = parseEventInput(await request.json(), Date.now());
+        if (typeof input === 'string') {
+          return new Response(JSON.stringify({ error: input }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Opened by the next cron run once starts_at has passed
+        const event = await createEvent(env, input);
+        return new Response(JSON.stringify({ event }), {
+          status: 201,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Failed to create event:', error);
+        return new Response(JSON.stringify({ error: 'Failed to create event' }), {
+          status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
+    }
+
+    // ==========================================
+    // Freemium API: daily matches and credits
+    // ==========================================
+
+    if (url.pathname === '/api/matches/today' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const count = freeMatchesUsed(await getCreditBalance(env, session.wallet));
+      // Matches don't count while an unlimited pass runs
+      const passExpiresAt = await getPassExpiry(env, session.wallet);
 
-      const count = await getDailyMatchCount(env, wallet.toLowerCase());
-      const freeLimit = 5;
+      return new Response(JSON.stringify({
+        count,
+        free_limit: FREE_DAILY_MATCHES,
+        group_match_cost: GROUP_MATCH_COST,
+        pass_expires_at: passExpiresAt,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (url.pathname === '/api/credits' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const credits = await getCreditBalance(env, session.wallet);
+      const passExpiresAt = await getPassExpiry(env, session.wallet);
 
-      return new Response(JSON.stringify({ count, free_limit: freeLimit }), {
+      return new Response(JSON.stringify({
+        free: credits.free,
+        purchased: credits.purchased,
+        total: totalCredits(credits),
+        free_limit: FREE_DAILY_MATCHES,
+        group_match_cost: GROUP_MATCH_COST,
+        pass_expires_at: passExpiresAt,
+      }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    if (url.pathname === '/api/matches/increment' && request.method === 'POST') {
+    if (url.pathname === '/api/matches/history' && request.method === 'GET') {
+      const human = await requireHuman(request, env);
+      if (human instanceof Response) return human;
+
+      const matches = await getMatchHistory(env, human.nullifierHash);
+      return new Response(JSON.stringify({ matches }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // ==========================================
+    // Safety API: reports and blocks
+    // ==========================================
+
+    if (url.pathname === '/api/reports' && request.method === 'POST') {
+      const human = await requireHuman(request, env);
+      if (human instanceof Response) return human;
+
       try {
-        const { wallet_address } = await request.json() as { wallet_address?: string };
-        if (!wallet_address) {
-          return new Response(JSON.stringify({ error: 'wallet_address required' }), {
+        const { match_id, reason, details } = await request.json() as {
+          match_id?: number;
+          reason?: string;
+          details?: string;
+        };
+        if (typeof match_id !== 'number' || !isReportReason(reason)) {
+          return new Response(JSON.stringify({
+            error: 'match_id and a valid reason are required',
+            reasons: REPORT_REASONS,
+          }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
-        const count = await incrementDailyMatchCount(env, wallet_address.toLowerCase());
-        return new Response(JSON.stringify({ count }), {
+        // Only the other party of a match the reporter was part of can be reported
+        const reported = await getMatchPartner(env, match_id, human.nullifierHash);
+        if (!reported) {
+          return new Response(JSON.stringify({ error: 'Match not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        await submitReport(env, {
+          reporter: human.nullifierHash,
+          reported,
+          matchId: match_id,
+          reason,
+          details: typeof details === 'string' && details.trim()
+            ? details.trim().slice(0, MAX_REPORT_DETAILS)
+            : null,
+        });
+
+        // Whether the report led to a ban is not disclosed to the reporter
+        return new Response(JSON.stringify({ reported: true, blocked: true }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
-      } catch {
-        return new Response(JSON.stringify({ error: 'Failed to increment match count' }), {
+      } catch (error) {
+        console.error('Failed to submit report:', error);
+        return new Response(JSON.stringify({ error: 'Failed to submit report' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    if (url.pathname === '/api/blocks' && request.method === 'POST') {
+      const human = await requireHuman(request, env);
+      if (human instanceof Response) return human;
+
+      try {
+        const { match_id } = await request.json() as { match_id?: number };
+        const blocked = typeof match_id === 'number'
+          ? await getMatchPartner(env, match_id, human.nullifierHash)
+          : null;
+        if (!blocked) {
+          return new Response(JSON.stringify({ error: 'Match not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        await blockUser(env, human.nullifierHash, blocked);
+        return new Response(JSON.stringify({ blocked: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        console.error('Failed to block user:', error);
+        return new Response(JSON.stringify({ error: 'Failed to block user' }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -340,25 +995,55 @@ export default {
     }
 
     // ==========================================
-    // Freemium API: payments
+    // Freemium API: products and payments
     // ==========================================
 
+    if (url.pathname === '/api/products' && request.method === 'GET') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      const products = await listProducts(env, Date.now());
+      return new Response(JSON.stringify({ products }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (url.pathname === '/api/payments/create' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
+      if (!env.PAYMENT_RECIPIENT) {
+        return new Response(JSON.stringify({ error: 'Server not configured for payments' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
       try {
-        const { reference_id, wallet_address } = await request.json() as { reference_id?: string; wallet_address?: string };
-        if (!reference_id || !wallet_address) {
-          return new Response(JSON.stringify({ error: 'reference_id and wallet_address required' }), {
+        const { product_id } = await request.json() as { product_id?: string };
+        const product = typeof product_id === 'string' ? await getProduct(env, product_id, Date.now()) : null;
+        if (!product) {
+          return new Response(JSON.stringify({ error: 'Product not available' }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
-        await createPaymentReference(env, reference_id, wallet_address.toLowerCase());
-        return new Response(JSON.stringify({ ok: true }), {
+        // The client pays exactly this: reference, recipient and amounts
+        // come from the server, never from the client
+        const intent = await createPaymentIntent(env, session.wallet, product, env.PAYMENT_RECIPIENT);
+        return new Response(JSON.stringify({
+          reference: intent.reference,
+          product_id: intent.productId,
+          to: intent.recipient,
+          tokens: intent.tokens,
+          description: intent.description,
+          expires_at: intent.expiresAt,
+        }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       } catch {
-        return new Response(JSON.stringify({ error: 'Failed to create payment reference' }), {
+        return new Response(JSON.stringify({ error: 'Failed to create payment intent' }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -366,15 +1051,18 @@ export default {
     }
 
     if (url.pathname === '/api/payments/verify' && request.method === 'POST') {
+      const session = await requireSession(request, env);
+      if (session instanceof Response) return session;
+
       try {
-        const { reference_id, transaction_id, wallet_address } = await request.json() as {
+        const { reference_id, transaction_id } = await request.json() as {
           reference_id?: string;
           transaction_id?: string;
-          wallet_address?: string;
         };
+        const wallet = session.wallet;
 
-        if (!reference_id || !transaction_id || !wallet_address) {
-          return new Response(JSON.stringify({ error: 'reference_id, transaction_id and wallet_address required' }), {
+        if (!reference_id || !transaction_id) {
+          return new Response(JSON.stringify({ error: 'reference_id and transaction_id required' }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
@@ -387,44 +1075,83 @@ export default {
           });
         }
 
-        const urlVerify = `https://developer.worldcoin.org/api/v2/minikit/transaction/${transaction_id}?app_id=${env.WORLD_APP_ID}&type=payment`;
-        const res = await fetch(urlVerify, {
-          method: 'GET',
-          headers: { Authorization: `Bearer ${env.WORLD_API_KEY}` },
-        });
+        // Only the wallet that created a reference can verify it
+        const payment = await getPayment(env, reference_id, wallet);
+        if (!payment) {
+          return new Response(JSON.stringify({ success: false, error: 'Payment not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // Already settled: repeat calls get the original result
+        if (payment.status !== 'pending') {
+          return settledPaymentResponse(env, payment, transaction_id);
+        }
 
-        if (!res.ok) {
-          await markPaymentStatus(env, reference_id, 'failed');
+        if (await isTransactionUsed(env, transaction_id)) {
+          return new Response(JSON.stringify({ success: false, error: 'Transaction already used' }), {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+
+        // A portal outage leaves the payment pending so it can be retried
+        const tx = await fetchPortalTransaction(env, transaction_id);
+        if (!tx) {
           return new Response(JSON.stringify({ success: false, error: 'Failed to verify transaction' }), {
             status: 502,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
-        const tx = await res.json() as { reference?: string; transaction_status?: string };
+        // Not mined yet: the payment stays pending and the client retries
+        if (isTransactionPending(tx)) {
+          return new Response(JSON.stringify({ success: false, pending: true }), {
+            status: 202,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
 
-        if (tx.reference !== reference_id || tx.transaction_status === 'failed') {
-          await markPaymentStatus(env, reference_id, 'failed');
-          return new Response(JSON.stringify({ success: false, error: 'Transaction not valid' }), {
+        // Token, amount, recipient and sender must match the intent. A
+        // transaction for another reference leaves this payment pending.
+        const mismatch = checkTransaction(payment, tx);
+        if (mismatch) {
+          if (mismatch.outcome === 'failed') await markPaymentFailed(env, payment);
+          if (mismatch.outcome === 'expired') await markPaymentExpired(env, payment, transaction_id);
+          return new Response(JSON.stringify({ success: false, error: mismatch.error }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
 
-        await markPaymentStatus(env, reference_id, 'success');
-
-        // Grant additional matches (+5) by effectively reducing today's count by 5,
-        // so the user gets 5 more \"free\" attempts.
-        const today = getTodayKey();
-        await env.DB.prepare(
-          `INSERT INTO daily_matches (wallet_address, date, match_count)
-           VALUES (?, ?, 0)
-           ON CONFLICT(wallet_address, date) DO UPDATE SET match_count = MAX(match_count - 5, 0)`
-        ).bind(wallet_address.toLowerCase(), today).run();
+        let settled: PaymentSettlement;
+        try {
+          settled = await settlePayment(env, payment, transaction_id);
+        } catch (error) {
+          // The unique index caught the transaction settling another payment
+          if (await isTransactionUsed(env, transaction_id)) {
+            return new Response(JSON.stringify({ success: false, error: 'Transaction already used' }), {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+          throw error;
+        }
 
-        const newCount = await getDailyMatchCount(env, wallet_address.toLowerCase());
+        // A concurrent call settled it first
+        if (!settled.settled) {
+          const current = await getPayment(env, reference_id, wallet);
+          if (current) return settledPaymentResponse(env, current, transaction_id);
+        }
 
-        return new Response(JSON.stringify({ success: true, new_count: newCount, granted: 5 }), {
+        return new Response(JSON.stringify({
+          success: true,
+          new_count: freeMatchesUsed(settled.credits),
+          credits: settled.credits,
+          pass_expires_at: settled.passExpiresAt,
+          granted: settled.granted,
+        }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       } catch {
@@ -440,46 +1167,107 @@ export default {
     // ==========================================
     
     if (url.pathname === '/ws') {
-      const username = url.searchParams.get('username');
-      const wallet = url.searchParams.get('wallet');
-      
+      const protocolVersion = negotiateVersion(url.searchParams.get(PROTOCOL_VERSION_PARAM));
+      if (protocolVersion === null) {
+        return rejectWebSocket(errorMessage('unsupported_version'), CLOSE_CODES.UNSUPPORTED_VERSION, 'Unsupported protocol version');
+      }
+
+      // Identity comes from the session, never from query parameters. A
+      // browser can't read an HTTP 401 off a WebSocket, so say it on one.
+      const session = await requireSession(request, env);
+      if (session instanceof Response) {
+        return rejectWebSocket(errorMessage('session_expired', {
+          message: 'Your session has ended. Please sign in again.',
+        }), CLOSE_CODES.SESSION_EXPIRED, 'Session expired');
+      }
+
+      // Only verified users can enter the matching queue, keyed by the
+      // human (nullifier_hash) rather than by any client-supplied name
+      let verification: { verified: boolean; nullifierHash: string | null };
+      try {
+        verification = await getVerificationState(env, session.wallet);
+      } catch (dbError) {
+        console.error('Database error checking verification:', dbError);
+        return new Response(JSON.stringify({ 
+          error: 'Failed to verify user status' 
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      if (!verification.verified || !verification.nullifierHash) {
+        return new Response(JSON.stringify({ 
+          error: 'User must be verified with World ID to enter matching queue' 
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Bans follow the human, whichever wallet they sign in with
+      let ban: Ban | null;
+      try {
+        ban = await getActiveBan(env, verification.nullifierHash);
+      } catch (dbError) {
+        console.error('Database error checking bans:', dbError);
+        return new Response(JSON.stringify({ error: 'Failed to verify user status' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (ban) {
+        return rejectWebSocket(banMessage(ban), CLOSE_CODES.BANNED, 'Banned');
+      }
+
+      const username = session.username || await resolveUsername(session.wallet);
       if (!username) {
-        return new Response(JSON.stringify({ error: 'Username required' }), {
+        return new Response(JSON.stringify({ error: 'A World App username is required to match' }), {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
 
-      // Only verified users can enter the matching queue
-      // Check if user has a verified nullifier_hash
-      if (wallet) {
+      // Hand the Durable Object the server-side identity; query parameters
+      // from the client are dropped
+      const queueUrl = new URL(request.url);
+      queueUrl.search = '';
+      const headers = new Headers(request.headers);
+      headers.set(QUEUE_IDENTITY_HEADERS.nullifier, verification.nullifierHash);
+      headers.set(QUEUE_IDENTITY_HEADERS.wallet, session.wallet);
+      headers.set(QUEUE_IDENTITY_HEADERS.username, username);
+      headers.set(QUEUE_PROTOCOL_HEADER, String(protocolVersion));
+
+      // Event participants go to the event's own queue, while it's open;
+      // users the shard gave up on come back asking for the global pool
+      let shard: string;
+      const eventParam = url.searchParams.get('event');
+      if (eventParam !== null) {
+        const eventId = Number(eventParam);
+        let event: MatchingEvent | null = null;
         try {
-          const user = await env.DB.prepare(
-            'SELECT nullifier_hash, world_id_verified FROM users WHERE wallet_address = ?'
-          ).bind(wallet.toLowerCase()).first<{ nullifier_hash?: string | null; world_id_verified?: number }>();
-
-          if (!user || !user.world_id_verified || !user.nullifier_hash) {
-            return new Response(JSON.stringify({ 
-              error: 'User must be verified with World ID to enter matching queue' 
-            }), {
-              status: 403,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-          }
+          event = Number.isInteger(eventId) ? await getOpenEvent(env, eventId, Date.now()) : null;
         } catch (dbError) {
-          console.error('Database error checking verification:', dbError);
-          return new Response(JSON.stringify({ 
-            error: 'Failed to verify user status' 
-          }), {
-            status: 500,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
+          console.error('Database error loading event:', dbError);
         }
+        if (!event) {
+          return rejectWebSocket(errorMessage('event_not_open'), CLOSE_CODES.EVENT_CLOSED, 'Event not open');
+        }
+        shard = eventShard(event.id);
+      } else if (url.searchParams.get('pool') === GLOBAL_SHARD) {
+        shard = GLOBAL_SHARD;
+      } else {
+        let language: string | null = null;
+        try {
+          language = await getUserLanguage(env, session.wallet);
+        } catch (dbError) {
+          console.error('Database error loading language:', dbError);
+        }
+        shard = resolveShard(request, language);
       }
+      headers.set(QUEUE_IDENTITY_HEADERS.shard, shard);
 
-      const id = env.MATCHING_QUEUE.idFromName('global-queue');
-      const queue = env.MATCHING_QUEUE.get(id);
-      return queue.fetch(request);
+      return getQueue(env, shard).fetch(new Request(queueUrl.toString(), { headers }));
     }
 
     // ==========================================
@@ -501,184 +1289,9 @@ export default {
       return new Response('Not Found', { status: 404 });
     }
   },
-};
-
-// ============================================
-// Matching Queue Durable Object
-// ============================================
-
-interface QueuedUser {
-  username: string;
-  joinedAt: number;
-  websocket: WebSocket;
-}
-
-interface WSMessage {
-  type: 'join_queue' | 'leave_queue' | 'heartbeat';
-  payload?: {
-    username?: string;
-  };
-}
-
-export class MatchingQueue implements DurableObject {
-  private state: DurableObjectState;
-  private queue: Map<string, QueuedUser> = new Map();
-
-  constructor(state: DurableObjectState, env: Env) {
-    this.state = state;
-    this.state.blockConcurrencyWhile(async () => {
-      this.queue = new Map();
-    });
-  }
-
-  async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-
-    if (url.pathname === '/status') {
-      return new Response(JSON.stringify({
-        queueSize: this.queue.size,
-        timestamp: Date.now(),
-      }), {
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
-    }
-
-    const upgradeHeader = request.headers.get('Upgrade');
-    if (!upgradeHeader || upgradeHeader !== 'websocket') {
-      return new Response('Expected Upgrade: websocket', { status: 426 });
-    }
 
-    const username = url.searchParams.get('username');
-    if (!username) {
-      return new Response('Username required', { status: 400 });
-    }
-
-    const pair = new WebSocketPair();
-    const [client, server] = Object.values(pair);
-
-    this.state.acceptWebSocket(server, [username]);
-    server.serializeAttachment({ username, joinedAt: Date.now() });
-    this.startMatchingProcess();
-
-    return new Response(null, {
-      status: 101,
-      webSocket: client,
-    });
-  }
-
-  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
-    try {
-      const data: WSMessage = JSON.parse(message as string);
-      const attachment = ws.deserializeAttachment() as { username: string; joinedAt: number } | null;
-
-      if (!attachment) {
-        ws.send(JSON.stringify({ type: 'error', payload: { message: 'Session expired' } }));
-        return;
-      }
-
-      switch (data.type) {
-        case 'join_queue':
-          this.addToQueue(attachment.username, ws);
-          this.sendQueueStatus(ws);
-          this.tryMatch();
-          break;
-        case 'leave_queue':
-          this.removeFromQueue(attachment.username);
-          break;
-        case 'heartbeat':
-          ws.send(JSON.stringify({ type: 'heartbeat' }));
-          break;
-        default:
-          ws.send(JSON.stringify({ type: 'error', payload: { message: 'Unknown message type' } }));
-      }
-    } catch (error) {
-      ws.send(JSON.stringify({ type: 'error', payload: { message: 'Invalid message format' } }));
-    }
-  }
-
-  async webSocketClose(ws: WebSocket): Promise<void> {
-    const attachment = ws.deserializeAttachment() as { username: string } | null;
-    if (attachment?.username) {
-      this.removeFromQueue(attachment.username);
-    }
-  }
-
-  async webSocketError(ws: WebSocket): Promise<void> {
-    const attachment = ws.deserializeAttachment() as { username: string } | null;
-    if (attachment?.username) {
-      this.removeFromQueue(attachment.username);
-    }
-  }
-
-  async alarm(): Promise<void> {
-    this.tryMatch();
-    this.broadcastQueueStatus();
-    if (this.queue.size > 0) {
-      this.state.storage.setAlarm(Date.now() + 2000);
-    }
-  }
-
-  private addToQueue(username: string, ws: WebSocket): void {
-    this.removeFromQueue(username);
-    this.queue.set(username, { username, joinedAt: Date.now(), websocket: ws });
-  }
-
-  private removeFromQueue(username: string): void {
-    this.queue.delete(username);
-  }
-
-  private sendQueueStatus(ws: WebSocket): void {
-    const position = Array.from(this.queue.values())
-      .sort((a, b) => a.joinedAt - b.joinedAt)
-      .findIndex(u => u.websocket === ws) + 1;
-    ws.send(JSON.stringify({ type: 'queue_status', payload: { position, total: this.queue.size } }));
-  }
-
-  private startMatchingProcess(): void {
-    this.state.storage.setAlarm(Date.now() + 1000);
-  }
-
-  private tryMatch(): void {
-    if (this.queue.size < 2) return;
-
-    const users = Array.from(this.queue.values()).sort((a, b) => a.joinedAt - b.joinedAt);
-    const user1 = users[0];
-    const user2 = users[1];
-
-    this.removeFromQueue(user1.username);
-    this.removeFromQueue(user2.username);
-
-    try {
-      user1.websocket.send(JSON.stringify({
-        type: 'matched',
-        payload: { matchedUsername: user2.username, matchedAt: Date.now() },
-      }));
-    } catch (e) {}
-
-    try {
-      user2.websocket.send(JSON.stringify({
-        type: 'matched',
-        payload: { matchedUsername: user1.username, matchedAt: Date.now() },
-      }));
-    } catch (e) {}
-
-    if (this.queue.size >= 2) this.tryMatch();
-  }
-
-  private broadcastQueueStatus(): void {
-    const users = Array.from(this.queue.values()).sort((a, b) => a.joinedAt - b.joinedAt);
-    users.forEach((user, index) => {
-      try {
-        user.websocket.send(JSON.stringify({
-          type: 'queue_status',
-          payload: { position: index + 1, total: this.queue.size },
-        }));
-      } catch (e) {
-        this.removeFromQueue(user.username);
-      }
-    });
-  }
-}
+  // Cron trigger: open and close matching events on schedule
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(runEventSchedule(env, controller.scheduledTime));
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Interest tag catalog
+ *
+ * Users pick up to MAX_INTERESTS tags from this server-curated list; their
+ * choice is stored on the `users` profile and used by MatchingQueue to
+ * prefer pairs who share interests.
+ */
+
+import type { Env } from './index';
+
+export interface InterestTag {
+  slug: string;
+  label: string;
+}
+
+export const INTEREST_CATALOG: readonly InterestTag[] = [
+  { slug: 'music', label: 'Music' },
+  { slug: 'movies', label: 'Movies & TV' },
+  { slug: 'gaming', label: 'Gaming' },
+  { slug: 'sports', label: 'Sports' },
+  { slug: 'fitness', label: 'Fitness' },
+  { slug: 'travel', label: 'Travel' },
+  { slug: 'food', label: 'Food & Cooking' },
+  { slug: 'books', label: 'Books' },
+  { slug: 'art', label: 'Art & Design' },
+  { slug: 'tech', label: 'Tech' },
+  { slug: 'crypto', label: 'Crypto' },
+  { slug: 'science', label: 'Science' },
+  { slug: 'pets', label: 'Pets' },
+  { slug: 'outdoors', label: 'Outdoors' },
+  { slug: 'languages', label: 'Languages' },
+  { slug: 'startups', label: 'Startups' },
+];
+
+export const MAX_INTERESTS = 5;
+
+const CATALOG_SLUGS = new Set(INTEREST_CATALOG.map(tag => tag.slug));
+
+// Keep only known, unique slugs, capped at MAX_INTERESTS
+export function sanitizeInterests(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const tags: string[] = [];
+  for (const item of value) {
+    if (typeof item === 'string' && CATALOG_SLUGS.has(item) && !tags.includes(item)) {
+      tags.push(item);
+    }
+    if (tags.length >= MAX_INTERESTS) break;
+  }
+  return tags;
+}
+
+export function sharedInterests(a: readonly string[], b: readonly string[]): string[] {
+  return a.filter(tag => b.includes(tag));
+}
+
+export async function getUserInterests(env: Env, wallet: string): Promise<string[]> {
+  const row = await env.DB.prepare(
+    'SELECT interests FROM users WHERE wallet_address = ?'
+  ).bind(wallet).first<{ interests: string | null }>();
+
+  if (!row?.interests) return [];
+  try {
+    return sanitizeInterests(JSON.parse(row.interests));
+  } catch {
+    return [];
+  }
+}
+
+export async function saveUserInterests(env: Env, wallet: string, interests: string[]): Promise<void> {
+  await env.DB.prepare(
+    'UPDATE users SET interests = ? WHERE wallet_address = ?'
+  ).bind(JSON.stringify(interests), wallet).run();
+}
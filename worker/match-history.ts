@@ -0,0 +1,174 @@
+/**
+ * Match history
+ *
+ * Every pairing made by MatchingQueue is recorded in the D1 `matches`
+ * table, keyed by both humans' nullifiers. The queue uses it to avoid
+ * re-pairing recent partners; /api/matches/history shows it to the user.
+ *
+ * A match starts out 'pending' while both sides decide whether to connect.
+ * Usernames are only stored once both connect (and were kept for 'matched'
+ * rows from before pseudonymous matching); otherwise the history shows the
+ * ephemeral handle the partner was introduced under.
+ */
+
+import type { Env } from './index';
+
+export type MatchOutcome = 'matched' | 'pending' | 'connected' | 'passed';
+
+export interface MatchRecord {
+  nullifierA: string;
+  nullifierB: string;
+  handleA: string;
+  handleB: string;
+  compatibility: number | null;
+  matchedAt: number;
+}
+
+// One side of a match, as it is revealed on connecting
+export interface MatchSide {
+  nullifier: string;
+  username: string;
+}
+
+export interface MatchHistoryEntry {
+  id: number;
+  partnerUsername: string | null;
+  partnerHandle: string | null;
+  compatibility: number | null;
+  outcome: MatchOutcome;
+  matchedAt: number;
+}
+
+// Default time two humans must wait before they can be paired again
+const DEFAULT_REMATCH_WINDOW_HOURS = 24;
+
+const HISTORY_LOOKUP_CHUNK = 40;
+
+export function getRematchWindowMs(env: Env): number {
+  const hours = Number(env.REMATCH_WINDOW_HOURS);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_REMATCH_WINDOW_HOURS) * 60 * 60 * 1000;
+}
+
+export async function recordMatch(env: Env, match: MatchRecord): Promise<number> {
+  const row = await env.DB.prepare(
+    `INSERT INTO matches (nullifier_a, nullifier_b, handle_a, handle_b, compatibility, outcome, matched_at)
+     VALUES (?, ?, ?, ?, ?, 'pending', ?)
+     RETURNING id`
+  ).bind(
+    match.nullifierA,
+    match.nullifierB,
+    match.handleA,
+    match.handleB,
+    match.compatibility,
+    match.matchedAt
+  ).first<{ id: number }>();
+
+  return row?.id ?? 0;
+}
+
+/**
+ * Record a group room as one row per pair of members, so each member can
+ * find, report and block the others like any partner. Group members are
+ * introduced by username, so the rows start out 'connected'.
+ */
+export async function recordGroupMatch(
+  env: Env,
+  members: MatchSide[],
+  matchedAt: number
+): Promise<void> {
+  const statements: D1PreparedStatement[] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      statements.push(env.DB.prepare(
+        `INSERT INTO matches (nullifier_a, nullifier_b, username_a, username_b, compatibility, outcome, matched_at)
+         VALUES (?, ?, ?, ?, NULL, 'connected', ?)`
+      ).bind(members[i].nullifier, members[j].nullifier, members[i].username, members[j].username, matchedAt));
+    }
+  }
+  if (statements.length > 0) await env.DB.batch(statements);
+}
+
+// Settle a pending match once both sides decided (or time ran out). Only
+// a connected match stores the usernames of its `sides`.
+export async function setMatchOutcome(
+  env: Env,
+  id: number,
+  outcome: 'connected' | 'passed',
+  sides: readonly MatchSide[] = []
+): Promise<void> {
+  if (outcome === 'passed' || sides.length !== 2) {
+    await env.DB.prepare(
+      "UPDATE matches SET outcome = ? WHERE id = ? AND outcome = 'pending'"
+    ).bind(outcome, id).run();
+    return;
+  }
+
+  const [first, second] = sides;
+  await env.DB.prepare(
+    `UPDATE matches SET
+       outcome = 'connected',
+       username_a = CASE WHEN nullifier_a = ? THEN ? ELSE ? END,
+       username_b = CASE WHEN nullifier_b = ? THEN ? ELSE ? END
+     WHERE id = ? AND outcome = 'pending'`
+  ).bind(first.nullifier, first.username, second.username, first.nullifier, first.username, second.username, id).run();
+}
+
+// Partners each of the given humans met since `since`, as nullifier → partner → matchedAt
+export async function getRecentPartners(
+  env: Env,
+  nullifiers: string[],
+  since: number
+): Promise<Map<string, Map<string, number>>> {
+  const partners = new Map<string, Map<string, number>>();
+  for (const nullifier of nullifiers) partners.set(nullifier, new Map());
+  if (nullifiers.length === 0) return partners;
+
+  // D1 caps bound parameters per statement, so look humans up in chunks
+  for (let i = 0; i < nullifiers.length; i += HISTORY_LOOKUP_CHUNK) {
+    const chunk = nullifiers.slice(i, i + HISTORY_LOOKUP_CHUNK);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const { results } = await env.DB.prepare(
+      `SELECT nullifier_a, nullifier_b, matched_at FROM matches
+       WHERE matched_at > ? AND (nullifier_a IN (${placeholders}) OR nullifier_b IN (${placeholders}))`
+    ).bind(since, ...chunk, ...chunk).all<{ nullifier_a: string; nullifier_b: string; matched_at: number }>();
+
+    for (const row of results ?? []) {
+      partners.get(row.nullifier_a)?.set(row.nullifier_b, row.matched_at);
+      partners.get(row.nullifier_b)?.set(row.nullifier_a, row.matched_at);
+    }
+  }
+
+  return partners;
+}
+
+export async function getMatchHistory(env: Env, nullifier: string, limit = 50): Promise<MatchHistoryEntry[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT id, nullifier_a, username_a, username_b, handle_a, handle_b, compatibility, outcome, matched_at FROM matches
+     WHERE nullifier_a = ? OR nullifier_b = ?
+     ORDER BY matched_at DESC
+     LIMIT ?`
+  ).bind(nullifier, nullifier, limit).all<{
+    id: number;
+    nullifier_a: string;
+    username_a: string | null;
+    username_b: string | null;
+    handle_a: string | null;
+    handle_b: string | null;
+    compatibility: number | null;
+    outcome: MatchOutcome;
+    matched_at: number;
+  }>();
+
+  return (results ?? []).map(row => {
+    const isA = row.nullifier_a === nullifier;
+    const revealed = row.outcome === 'connected' || row.outcome === 'matched';
+    return {
+      id: row.id,
+      partnerUsername: revealed ? (isA ? row.username_b : row.username_a) : null,
+      partnerHandle: isA ? row.handle_b : row.handle_a,
+      compatibility: row.compatibility,
+      outcome: row.outcome,
+      matchedAt: row.matched_at,
+    };
+  });
+}
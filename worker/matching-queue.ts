@@ -0,0 +1,1694 @@
+/**
+ * Matching Queue Durable Object
+ *
+ * Holds every waiting user's WebSocket and pairs them. Connections arrive
+ * from the worker's /ws route with the verified identity in headers.
+ *
+ * There is one instance per language/region shard plus the global pool
+ * (see shards.ts). Users who wait longer than the fallback delay in a
+ * shard get `queue_fallback` and reconnect to the global pool.
+ *
+ * Sockets are hibernatable, so the in-memory queue is only a cache: each
+ * socket's attachment records whether (and since when) it is queued, and
+ * the queue is rebuilt from `state.getWebSockets()` whenever the object
+ * wakes up after hibernation or eviction.
+ *
+ * Pairing prefers users who share the most interest tags. The required
+ * overlap relaxes through MATCH_TIERS (see pairing.ts) as a user waits, so
+ * nobody starves.
+ * Among eligible candidates, pairs are ranked by shared tags plus their
+ * quiz compatibility score. Humans who met within the rematch window
+ * (see match-history.ts), or where either has blocked the other
+ * (see safety.ts), are never paired.
+ *
+ * A chosen pair first goes through a ready-check: both sockets get
+ * `match_proposed` and must answer `match_ack` within READY_CHECK_TIMEOUT_MS.
+ * Only then are credits consumed and `matched` sent. Whoever misses the ack
+ * leaves the queue; a responsive partner goes back to their old position.
+ * Bans are looked up again at that point, so someone banned while waiting
+ * is sent away with `banned` instead of matched.
+ *
+ * Confirmed matches are pseudonymous: each side is introduced under an
+ * ephemeral handle (see handles.ts) with only the shared context. Both
+ * answer `match_decision` with connect or pass; usernames are revealed
+ * only if both connect within DECISION_TIMEOUT_MS.
+ *
+ * To hold up with thousands of sockets, waiting users are kept in a
+ * QueueOrder (see queue-order.ts). `queue_status` goes out once per tick,
+ * only to users whose (rounded) position or tier changed. A matching pass
+ * only looks at pairs involving a "fresh" user — one who joined, was
+ * requeued, moved to a looser tier or saw a rematch window run out since
+ * the last fruitless pass — and at most MAX_FRESH_PER_PASS of them, the
+ * longest waiting first (see pairing.ts).
+ *
+ * `queue_status` also carries an estimated wait, the number of people
+ * online in the shard and how many were matched in the last hour, from
+ * rolling stats kept in storage (see queue-stats.ts). They are recomputed
+ * every STATS_REFRESH_MS, and everyone gets a fresh status when they change.
+ *
+ * A user may instead ask for a group room of MIN_GROUP_SIZE..MAX_GROUP_SIZE
+ * people. Group users are only ever placed with others who asked for the
+ * same size: once enough of them are waiting, the longest-waiting fresh
+ * user is grouped with the candidates sharing the most tags with them (tiers
+ * relax as for pairs; blocks apply, the rematch window doesn't). Rooms go
+ * through the same ready-check, cost GROUP_MATCH_COST credits each, and
+ * skip the pseudonymous phase: `group_matched` lists every member so the
+ * client can open a World App group chat. Each pair of members gets a
+ * history row, so members can report and block one another.
+ *
+ * Joining hands out a resume token. When a waiting, proposed or deciding
+ * user's socket drops, their place is held for RESUME_GRACE_MS (and kept in
+ * storage): they stay in the queue and can still be paired. A new socket
+ * that sends `resume_queue` with the token takes the place back with its
+ * original joinedAt, and gets any ready-check or match that came up in
+ * the meantime. A socket replaced by a second connection of the same
+ * human is held the same way.
+ *
+ * An instance may instead run a scheduled event (see events.ts), opened
+ * and closed by the worker's cron trigger. Events match in rounds: from
+ * EVENT_LOBBY_MS after the start and then every `roundMs`, everyone waiting
+ * is paired at once, best-ranked pairs first, never with someone they
+ * already met in the event. After each match both sides go back to wait
+ * for the next round. Event matches don't consume credits, and
+ * participants get `event_status` instead of `queue_status`.
+ *
+ * Outside events, a match costs credits (see credits.ts) unless the user
+ * has an unlimited pass running (see entitlements.ts); a pass that runs
+ * out simply stops covering matches.
+ */
+
+import type { Env } from './index';
+import {
+  freeMatchesUsed,
+  getCreditBalance,
+  refundCredits,
+  totalCredits,
+  FREE_DAILY_MATCHES,
+  GROUP_MATCH_COST,
+} from './credits';
+import { chargeMatch, getPassExpiry, type MatchCharge } from './entitlements';
+import {
+  getUserInterests,
+  sanitizeInterests,
+  saveUserInterests,
+  sharedInterests,
+} from './interests';
+import {
+  compareAnswers,
+  getActiveQuiz,
+  getUserAnswers,
+  type Quiz,
+  type QuizAnswers,
+} from './quiz';
+import {
+  getRecentPartners,
+  getRematchWindowMs,
+  recordGroupMatch,
+  recordMatch,
+  setMatchOutcome,
+} from './match-history';
+import { generateHandle } from './handles';
+import { getFallbackMs, GLOBAL_SHARD } from './shards';
+import { banMessage, getActiveBan, getBlockedPartners, type Ban } from './safety';
+import { compareEntries, displayPosition, QueueOrder } from './queue-order';
+import {
+  findPair,
+  INTEREST_WEIGHT,
+  MAX_FRESH_PER_PASS,
+  NEUTRAL_COMPATIBILITY,
+  TIER_THRESHOLDS,
+  tierFor,
+} from './pairing';
+import { findRoundPairs } from './round-pairs';
+import {
+  CLOSE_CODES,
+  encodeMessage,
+  errorMessage,
+  parseClientMessage,
+  PROTOCOL_VERSION,
+  type CreditBalance,
+  type EventStatusPayload,
+  type GroupMatchedPayload,
+  type MatchDecision,
+  type MatchedPayload,
+} from '../lib/protocol';
+import {
+  computeStats,
+  estimateWaitSeconds,
+  recordMatchedUsers,
+  type MatchBucket,
+  type QueueStats,
+} from './queue-stats';
+import type { EventConfig } from './events';
+
+// Headers the worker uses to pass the verified identity to MatchingQueue
+export const QUEUE_IDENTITY_HEADERS = {
+  nullifier: 'X-Mindalike-Nullifier',
+  wallet: 'X-Mindalike-Wallet',
+  username: 'X-Mindalike-Username',
+  shard: 'X-Mindalike-Shard',
+} as const;
+
+// Protocol version the worker negotiated with the client
+export const QUEUE_PROTOCOL_HEADER = 'X-Mindalike-Protocol';
+
+interface QueuedUser {
+  nullifier: string;
+  wallet: string;
+  username: string;
+  shard: string;
+  interests: string[];
+  answers: QuizAnswers;
+  // Size of the group room asked for, null for a one-on-one match
+  groupSize: number | null;
+  joinedAt: number;
+  // null while disconnected and holding their place
+  websocket: WebSocket | null;
+  // Last queue_status sent, as `position|tier|estimate|online|matched`; memory only
+  sentStatus?: string;
+}
+
+// Serialized onto each hibernatable socket; the source of truth for the queue
+interface SocketAttachment {
+  nullifier: string;
+  wallet: string;
+  username: string;
+  shard: string;
+  interests: string[];
+  answers: QuizAnswers;
+  groupSize: number | null;
+  connectedAt: number;
+  // When the user joined the queue, null while not queued. Kept during a
+  // ready-check so a responsive user can get their position back.
+  queuedAt: number | null;
+  proposal: { id: string; expiresAt: number; acked: boolean } | null;
+  // Set while deciding on a confirmed match; `handle` is this side's own
+  reveal: { id: string; matchId: number | null; handle: string; decision: MatchDecision | null; expiresAt: number } | null;
+  // Handed out on join_queue; lets a new socket take this one's place
+  resumeToken: string | null;
+}
+
+interface RevealSide {
+  nullifier: string;
+  username: string;
+  handle: string;
+  decision: MatchDecision | null;
+  // null while disconnected and holding their place
+  websocket: WebSocket | null;
+  // The `matched` payload this side was sent, replayed on resume; memory only
+  introduction: MatchedPayload | null;
+}
+
+// A confirmed match waiting for both sides to connect or pass
+interface PendingReveal {
+  id: string;
+  matchId: number | null;
+  sides: [RevealSide, RevealSide];
+  expiresAt: number;
+}
+
+// A pair or group room waiting for everyone to acknowledge the ready-check
+interface Proposal {
+  id: string;
+  users: QueuedUser[];
+  acked: Set<string>;
+  expiresAt: number;
+}
+
+// A disconnected human's place, persisted under `${HELD_KEY_PREFIX}<nullifier>`
+interface HeldPlace {
+  token: string;
+  expiresAt: number;
+  // Their queue entry, so the place survives a restart of the object;
+  // null when they dropped while deciding on a match
+  entry: Omit<QueuedUser, 'websocket' | 'sentStatus'> | null;
+}
+
+// A scheduled event run by this instance, persisted under EVENT_KEY
+interface EventState extends EventConfig {
+  // Rounds played so far
+  round: number;
+  closed: boolean;
+}
+
+// Matching pass interval while anyone is waiting
+const MATCH_INTERVAL_MS = 2000;
+
+// How long both sides of a proposed pair have to acknowledge it
+const READY_CHECK_TIMEOUT_MS = 10 * 1000;
+
+// How long matched users have to choose connect or pass
+const DECISION_TIMEOUT_MS = 2 * 60 * 1000;
+
+// How often the online count, match rate and wait estimates are recomputed
+const STATS_REFRESH_MS = 30 * 1000;
+
+// Storage key for the per-minute match buckets
+const MATCH_STATS_KEY = 'match-stats';
+
+// How long a dropped user's place is held for them to resume
+const RESUME_GRACE_MS = 30 * 1000;
+
+const HELD_KEY_PREFIX = 'held:';
+
+const EVENT_KEY = 'event';
+// Pairs already matched in the event, as sorted `a|b` nullifiers
+const EVENT_PAIRS_KEY = 'event-pairs';
+
+// Time after an event starts for people to gather before the first round
+const EVENT_LOBBY_MS = 60 * 1000;
+
+// How long the active quiz is cached before being re-read from D1
+const QUIZ_CACHE_MS = 10 * 60 * 1000;
+
+function queueEntry(user: QueuedUser): NonNullable<HeldPlace['entry']> {
+  return {
+    nullifier: user.nullifier,
+    wallet: user.wallet,
+    username: user.username,
+    shard: user.shard,
+    interests: user.interests,
+    answers: user.answers,
+    groupSize: user.groupSize,
+    joinedAt: user.joinedAt,
+  };
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Rounds that should have started by `now`
+function eventRoundsDue(event: EventConfig, now: number): number {
+  const firstAt = event.startsAt + EVENT_LOBBY_MS;
+  if (now < firstAt) return 0;
+  return Math.floor((Math.min(now, event.endsAt) - firstAt) / event.roundMs) + 1;
+}
+
+// Start of the round after `round`, null if the event is over by then
+function nextEventRoundAt(event: EventConfig, round: number): number | null {
+  const at = event.startsAt + EVENT_LOBBY_MS + round * event.roundMs;
+  return at < event.endsAt ? at : null;
+}
+
+export class MatchingQueue implements DurableObject {
+  private state: DurableObjectState;
+  private env: Env;
+  // Keyed by nullifier_hash: one entry per human
+  private queue: Map<string, QueuedUser> = new Map();
+  // The same users, oldest first
+  private order: QueueOrder<QueuedUser> = new QueueOrder();
+  // Users that may have become matchable since the last fruitless pass
+  private fresh: Set<string> = new Set();
+  private lastPassAt = 0;
+  private lastStatusAt = 0;
+  // Matches over the last hour, persisted under MATCH_STATS_KEY
+  private matchBuckets: MatchBucket[] = [];
+  private stats: QueueStats = computeStats([], 0, 0);
+  private statsAt = 0;
+  // Pending ready-checks, keyed by the nullifier of each side
+  private proposals: Map<string, Proposal> = new Map();
+  // Confirmed matches awaiting decisions, keyed by the nullifier of each side
+  private reveals: Map<string, PendingReveal> = new Map();
+  // Places of disconnected users awaiting resume, keyed by nullifier
+  private held: Map<string, HeldPlace> = new Map();
+  private quiz: Quiz | null = null;
+  private quizLoadedAt = 0;
+  // Recent partners of queued humans: nullifier → partner → matchedAt.
+  // Loaded from D1 on demand, so it needs no hibernation handling.
+  private recentPartners: Map<string, Map<string, number>> = new Map();
+  // Blocks in either direction, loaded alongside recentPartners
+  private blocked: Map<string, Set<string>> = new Map();
+  // When the first rematch window still running for a queued human ends
+  private rematchEndsAt: Map<string, number> = new Map();
+  // Set when this instance runs a scheduled event
+  private event: EventState | null = null;
+  private eventPairs: Set<string> = new Set();
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+    this.state.blockConcurrencyWhile(async () => {
+      const held = await this.state.storage.list<HeldPlace>({ prefix: HELD_KEY_PREFIX });
+      for (const [key, place] of held) this.held.set(key.slice(HELD_KEY_PREFIX.length), place);
+      this.restoreQueue();
+      this.matchBuckets = (await this.state.storage.get<MatchBucket[]>(MATCH_STATS_KEY)) ?? [];
+      this.event = (await this.state.storage.get<EventState>(EVENT_KEY)) ?? null;
+      this.eventPairs = new Set((await this.state.storage.get<string[]>(EVENT_PAIRS_KEY)) ?? []);
+      this.refreshStats(Date.now());
+      // After a cold start the previous alarm may be gone; make sure
+      // anyone still waiting keeps getting matched
+      if (this.hasPendingWork() && (await this.state.storage.getAlarm()) === null) {
+        await this.state.storage.setAlarm(Date.now() + 1000);
+      }
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/status') {
+      this.refreshStats(Date.now());
+      return new Response(JSON.stringify({
+        queueSize: this.queue.size,
+        online: this.stats.online,
+        matchedLastHour: this.stats.matchedLastHour,
+        timestamp: Date.now(),
+      }), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      });
+    }
+
+    // Sent by the worker's cron trigger (see events.ts)
+    if ((url.pathname === '/event/open' || url.pathname === '/event/close') && request.method === 'POST') {
+      const config = await request.json() as EventConfig;
+      if (url.pathname === '/event/open') {
+        this.openEvent(config);
+      } else {
+        this.closeEvent(config);
+      }
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const upgradeHeader = request.headers.get('Upgrade');
+    if (!upgradeHeader || upgradeHeader !== 'websocket') {
+      return new Response('Expected Upgrade: websocket', { status: 426 });
+    }
+
+    // Identity is set by the worker after checking the session and World ID
+    const nullifier = request.headers.get(QUEUE_IDENTITY_HEADERS.nullifier);
+    const wallet = request.headers.get(QUEUE_IDENTITY_HEADERS.wallet);
+    const username = request.headers.get(QUEUE_IDENTITY_HEADERS.username);
+    const shard = request.headers.get(QUEUE_IDENTITY_HEADERS.shard) ?? GLOBAL_SHARD;
+    if (!nullifier || !wallet || !username) {
+      return new Response('Verified identity required', { status: 403 });
+    }
+
+    // A second connection from the same human replaces the first one.
+    // Whatever the old socket was doing — waiting, a ready-check or an
+    // undecided match — is held as if it had dropped, so the new socket
+    // can take it over with resume_queue even if the old one's close hasn't
+    // arrived yet. With nothing to hold, the new socket inherits the queue
+    // position if the old one was waiting; a pending ready-check is called
+    // off and the partner requeued.
+    const replaced = this.state.getWebSockets(nullifier);
+    let heldOver = false;
+    for (const existing of replaced) {
+      const existingAttachment = existing.deserializeAttachment() as SocketAttachment | null;
+      if (existingAttachment && this.holdPlace(existingAttachment, existing)) heldOver = true;
+    }
+    let previous: QueuedUser | undefined;
+    if (!heldOver && !this.held.has(nullifier)) {
+      previous = this.queue.get(nullifier);
+      const proposal = this.proposals.get(nullifier);
+      if (proposal) {
+        previous = proposal.users.find(user => user.nullifier === nullifier);
+        this.cancelProposal(proposal, [nullifier]);
+      }
+      // Walking away from an undecided match counts as passing
+      const reveal = this.reveals.get(nullifier);
+      if (reveal) this.resolveReveal(reveal, 'passed');
+      this.removeFromQueue(nullifier);
+    }
+    for (const existing of replaced) {
+      try {
+        existing.send(encodeMessage(errorMessage('session_replaced')));
+        existing.close(CLOSE_CODES.SESSION_REPLACED, 'Session replaced');
+      } catch (e) {}
+    }
+
+    const pair = new WebSocketPair();
+    const [client, server] = Object.values(pair);
+
+    const attachment: SocketAttachment = {
+      nullifier,
+      wallet,
+      username,
+      shard,
+      interests: previous?.interests ?? [],
+      answers: previous?.answers ?? {},
+      groupSize: previous?.groupSize ?? null,
+      connectedAt: Date.now(),
+      queuedAt: null,
+      proposal: null,
+      reveal: null,
+      resumeToken: null,
+    };
+    this.state.acceptWebSocket(server, [nullifier]);
+    server.serializeAttachment(attachment);
+    server.send(encodeMessage({
+      type: 'hello',
+      payload: { version: Number(request.headers.get(QUEUE_PROTOCOL_HEADER)) || PROTOCOL_VERSION },
+    }));
+    if (previous) {
+      this.enqueue({ ...previous, websocket: server });
+    }
+    await this.startMatchingProcess();
+
+    return new Response(null, {
+      status: 101,
+      webSocket: client,
+    });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const parsed = parseClientMessage(message);
+    if (!parsed.ok) {
+      try {
+        ws.send(encodeMessage(errorMessage(parsed.error)));
+        if (parsed.error === 'message_too_big') ws.close(CLOSE_CODES.MESSAGE_TOO_BIG, 'Message too big');
+      } catch (e) {}
+      return;
+    }
+    const data = parsed.message;
+
+    try {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+
+      if (!attachment) {
+        ws.send(encodeMessage(errorMessage('session_expired')));
+        return;
+      }
+
+      switch (data.type) {
+        case 'join_queue': {
+          // Joining afresh gives up any place held for an earlier socket
+          this.releaseHeldPlace(attachment.nullifier);
+
+          // Already paired up and waiting on the ready-check
+          if (this.proposals.has(attachment.nullifier)) break;
+
+          // Looking for someone new passes on an undecided match
+          const reveal = this.reveals.get(attachment.nullifier);
+          if (reveal) this.resolveReveal(reveal, 'passed');
+
+          if (this.event?.closed) {
+            this.endEventFor(ws);
+            break;
+          }
+
+          // Credits are checked here and consumed only when a pair is
+          // confirmed; events are one-on-one and free, and so is everything
+          // while an unlimited pass runs
+          const groupSize = this.event ? null : data.payload?.groupSize ?? null;
+          const cost = groupSize === null ? 1 : GROUP_MATCH_COST;
+          if (!this.event && await getPassExpiry(this.env, attachment.wallet) === null) {
+            const credits = await getCreditBalance(this.env, attachment.wallet);
+            if (totalCredits(credits) < cost) {
+              this.sendQuotaExhausted(ws, credits);
+              break;
+            }
+          }
+
+          // Tags sent with join_queue replace the saved profile tags
+          let interests: string[];
+          if (data.payload?.interests) {
+            interests = sanitizeInterests(data.payload.interests);
+            await saveUserInterests(this.env, attachment.wallet, interests);
+          } else {
+            interests = await getUserInterests(this.env, attachment.wallet);
+          }
+          attachment.interests = interests;
+          attachment.groupSize = groupSize;
+
+          const quiz = await this.loadQuiz();
+          attachment.answers = quiz ? await getUserAnswers(this.env, attachment.wallet, quiz) : {};
+          const resumeToken = crypto.randomUUID();
+          attachment.resumeToken = resumeToken;
+          ws.serializeAttachment(attachment);
+
+          // Re-read history and blocks on every join; both may have changed
+          this.recentPartners.delete(attachment.nullifier);
+          this.blocked.delete(attachment.nullifier);
+
+          this.addToQueue(attachment, ws);
+          ws.send(encodeMessage({
+            type: 'resume_token',
+            payload: { token: resumeToken, graceMs: RESUME_GRACE_MS },
+          }));
+          this.sendQueueStatus(this.queue.get(attachment.nullifier)!);
+          await this.startMatchingProcess();
+          await this.tryMatch();
+          break;
+        }
+        case 'resume_queue': {
+          if (this.resume(ws, attachment, data.payload.token)) {
+            await this.startMatchingProcess();
+            break;
+          }
+          this.releaseHeldPlace(attachment.nullifier);
+          ws.send(encodeMessage({
+            type: 'resume_failed',
+            payload: { message: 'Your place in the queue has expired' },
+          }));
+          break;
+        }
+        case 'leave_queue': {
+          const proposal = this.proposals.get(attachment.nullifier);
+          if (proposal) this.cancelProposal(proposal, [attachment.nullifier]);
+          this.removeFromQueue(attachment.nullifier);
+          break;
+        }
+        case 'match_ack': {
+          const proposal = this.proposals.get(attachment.nullifier);
+          // Late or stale acks are ignored
+          if (!proposal || proposal.id !== data.payload.proposalId) break;
+
+          proposal.acked.add(attachment.nullifier);
+          this.updateAttachment(ws, { proposal: { id: proposal.id, expiresAt: proposal.expiresAt, acked: true } });
+          if (proposal.acked.size === proposal.users.length) {
+            await this.confirmMatch(proposal);
+          }
+          break;
+        }
+        case 'match_decision': {
+          const reveal = this.reveals.get(attachment.nullifier);
+          const decision = data.payload.decision;
+          if (!reveal) break;
+
+          if (decision === 'pass') {
+            this.resolveReveal(reveal, 'passed');
+            break;
+          }
+
+          const side = reveal.sides.find(s => s.nullifier === attachment.nullifier)!;
+          side.decision = decision;
+          this.updateAttachment(ws, {
+            reveal: { id: reveal.id, matchId: reveal.matchId, handle: side.handle, decision, expiresAt: reveal.expiresAt },
+          });
+          if (reveal.sides.every(s => s.decision === 'connect')) {
+            this.resolveReveal(reveal, 'connected');
+          }
+          break;
+        }
+        case 'heartbeat':
+          ws.send(encodeMessage({ type: 'heartbeat' }));
+          break;
+      }
+    } catch (error) {
+      console.error('Failed to handle queue message:', error);
+      try {
+        ws.send(encodeMessage(errorMessage('internal_error')));
+      } catch (e) {}
+    }
+  }
+
+  async webSocketClose(ws: WebSocket): Promise<void> {
+    this.removeSocket(ws);
+  }
+
+  async webSocketError(ws: WebSocket): Promise<void> {
+    this.removeSocket(ws);
+  }
+
+  async alarm(): Promise<void> {
+    this.expireHeldPlaces();
+    this.expireProposals();
+    this.expireReveals();
+    await this.tryMatch();
+    this.fallBackToGlobal();
+    this.flushQueueStatus();
+    if (this.hasPendingWork()) {
+      await this.state.storage.setAlarm(Date.now() + MATCH_INTERVAL_MS);
+    }
+  }
+
+  private hasPendingWork(): boolean {
+    return this.queue.size > 0 || this.proposals.size > 0 || this.reveals.size > 0 || this.held.size > 0;
+  }
+
+  // Rebuild the in-memory queue, pending ready-checks and pending reveals
+  // from the attachments of open sockets
+  private restoreQueue(): void {
+    this.queue = new Map();
+    this.proposals = new Map();
+    this.reveals = new Map();
+    const proposed = new Map<string, { users: QueuedUser[]; acked: Set<string>; expiresAt: number }>();
+    const revealing = new Map<string, { matchId: number | null; sides: RevealSide[]; expiresAt: number }>();
+
+    for (const ws of this.state.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+      if (!attachment || ws.readyState !== WebSocket.OPEN) continue;
+
+      if (attachment.reveal) {
+        const entry = revealing.get(attachment.reveal.id)
+          ?? { matchId: attachment.reveal.matchId, sides: [], expiresAt: attachment.reveal.expiresAt };
+        entry.sides.push({
+          nullifier: attachment.nullifier,
+          username: attachment.username,
+          handle: attachment.reveal.handle,
+          decision: attachment.reveal.decision,
+          websocket: ws,
+          introduction: null,
+        });
+        revealing.set(attachment.reveal.id, entry);
+        continue;
+      }
+      if (attachment.queuedAt === null) continue;
+
+      // Should a human somehow have two queued sockets, keep the newest one
+      const existing = this.queue.get(attachment.nullifier);
+      if (existing) {
+        const existingAttachment = existing.websocket?.deserializeAttachment() as SocketAttachment | null;
+        if (existingAttachment && existingAttachment.connectedAt > attachment.connectedAt) continue;
+      }
+
+      const user: QueuedUser = {
+        nullifier: attachment.nullifier,
+        wallet: attachment.wallet,
+        username: attachment.username,
+        shard: attachment.shard ?? GLOBAL_SHARD,
+        interests: attachment.interests ?? [],
+        answers: attachment.answers ?? {},
+        groupSize: attachment.groupSize ?? null,
+        joinedAt: attachment.queuedAt,
+        websocket: ws,
+      };
+
+      if (attachment.proposal) {
+        const entry = proposed.get(attachment.proposal.id)
+          ?? { users: [], acked: new Set<string>(), expiresAt: attachment.proposal.expiresAt };
+        entry.users.push(user);
+        if (attachment.proposal.acked) entry.acked.add(user.nullifier);
+        proposed.set(attachment.proposal.id, entry);
+      } else {
+        this.queue.set(attachment.nullifier, user);
+      }
+    }
+
+    for (const [id, entry] of proposed) {
+      if (entry.users.length === (entry.users[0].groupSize ?? 2)) {
+        const proposal: Proposal = { id, users: entry.users, acked: entry.acked, expiresAt: entry.expiresAt };
+        for (const user of entry.users) this.proposals.set(user.nullifier, proposal);
+        continue;
+      }
+      // A member's socket is gone: the survivors return to the queue
+      for (const user of entry.users) {
+        this.updateAttachment(user.websocket, { proposal: null });
+        this.queue.set(user.nullifier, user);
+      }
+    }
+
+    // Held places outlive the object; their sockets don't, so they wait
+    // in the queue without one until resumed
+    for (const [nullifier, place] of this.held) {
+      if (place.entry && !this.queue.has(nullifier)) {
+        this.queue.set(nullifier, { ...place.entry, websocket: null });
+      }
+    }
+
+    for (const [id, entry] of revealing) {
+      if (entry.sides.length === 2) {
+        const reveal: PendingReveal = { id, matchId: entry.matchId, sides: [entry.sides[0], entry.sides[1]], expiresAt: entry.expiresAt };
+        for (const side of entry.sides) this.reveals.set(side.nullifier, reveal);
+        continue;
+      }
+      // Without the partner's socket nobody can connect anymore
+      for (const side of entry.sides) {
+        this.updateAttachment(side.websocket, { reveal: null });
+        try {
+          side.websocket?.send(encodeMessage({ type: 'match_closed', payload: { matchId: entry.matchId } }));
+        } catch (e) {}
+      }
+      if (entry.matchId !== null) {
+        this.state.waitUntil(setMatchOutcome(this.env, entry.matchId, 'passed').catch(() => {}));
+      }
+    }
+
+    this.order = QueueOrder.from(this.queue.values());
+    this.fresh = new Set(this.queue.keys());
+  }
+
+  private addToQueue(attachment: SocketAttachment, ws: WebSocket): void {
+    const existing = this.queue.get(attachment.nullifier);
+    this.enqueue({
+      nullifier: attachment.nullifier,
+      wallet: attachment.wallet,
+      username: attachment.username,
+      shard: attachment.shard,
+      interests: attachment.interests,
+      answers: attachment.answers,
+      groupSize: attachment.groupSize,
+      joinedAt: existing?.joinedAt ?? attachment.queuedAt ?? Date.now(),
+      websocket: ws,
+    });
+  }
+
+  // Every queue mutation is mirrored into the socket attachment so it
+  // survives hibernation
+  private enqueue(user: QueuedUser): void {
+    const existing = this.queue.get(user.nullifier);
+    if (existing) this.order.remove(existing);
+    this.queue.set(user.nullifier, user);
+    this.order.insert(user);
+    this.fresh.add(user.nullifier);
+    this.updateAttachment(user.websocket, { queuedAt: user.joinedAt, proposal: null });
+  }
+
+  private removeFromQueue(nullifier: string): void {
+    const user = this.queue.get(nullifier);
+    this.queue.delete(nullifier);
+    this.fresh.delete(nullifier);
+    if (user) {
+      this.order.remove(user);
+      this.updateAttachment(user.websocket, { queuedAt: null, proposal: null });
+    }
+  }
+
+  private updateAttachment(ws: WebSocket | null, changes: Partial<SocketAttachment>): void {
+    if (!ws) return;
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+    if (!attachment) return;
+    try {
+      ws.serializeAttachment({ ...attachment, ...changes });
+    } catch (e) {}
+  }
+
+  // Only drop the queue entry if it still belongs to this socket, so a
+  // replaced connection closing late doesn't evict its successor
+  private removeSocket(ws: WebSocket): void {
+    const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+    if (!attachment?.nullifier) return;
+    if (this.holdPlace(attachment, ws)) return;
+
+    const proposal = this.proposals.get(attachment.nullifier);
+    if (proposal?.users.some(user => user.websocket === ws)) {
+      this.cancelProposal(proposal, [attachment.nullifier]);
+    }
+    const reveal = this.reveals.get(attachment.nullifier);
+    if (reveal?.sides.some(side => side.websocket === ws)) {
+      this.resolveReveal(reveal, 'passed');
+    }
+    if (this.queue.get(attachment.nullifier)?.websocket === ws) {
+      this.removeFromQueue(attachment.nullifier);
+    }
+  }
+
+  /**
+   * Keep a dropped socket's place — in the queue, a ready-check or an
+   * undecided match — for RESUME_GRACE_MS. Returns false when there is
+   * nothing to hold.
+   */
+  private holdPlace(attachment: SocketAttachment, ws: WebSocket): boolean {
+    if (!attachment.resumeToken) return false;
+    const nullifier = attachment.nullifier;
+    const expiresAt = Date.now() + RESUME_GRACE_MS;
+
+    const proposal = this.proposals.get(nullifier);
+    const proposed = proposal?.users.find(user => user.websocket === ws);
+    const queued = this.queue.get(nullifier);
+    const side = this.reveals.get(nullifier)?.sides.find(s => s.websocket === ws);
+    let entry: HeldPlace['entry'] = null;
+    if (proposal && proposed) {
+      // The ack has to come from the socket that resumes
+      proposed.websocket = null;
+      proposal.acked.delete(nullifier);
+      proposal.expiresAt = Math.max(proposal.expiresAt, expiresAt);
+      entry = queueEntry(proposed);
+    } else if (queued?.websocket === ws) {
+      queued.websocket = null;
+      entry = queueEntry(queued);
+    } else if (side) {
+      side.websocket = null;
+    } else {
+      return false;
+    }
+
+    const place: HeldPlace = { token: attachment.resumeToken, expiresAt, entry };
+    this.held.set(nullifier, place);
+    this.state.waitUntil(
+      this.state.storage.put(HELD_KEY_PREFIX + nullifier, place).catch(error => {
+        console.error('Failed to save held place:', error);
+      })
+    );
+    return true;
+  }
+
+  /**
+   * Hand a held place to `ws` if `token` matches, replaying a ready-check
+   * or match that came up while disconnected. Returns false when there is
+   * no place to take back.
+   */
+  private resume(ws: WebSocket, attachment: SocketAttachment, token: string): boolean {
+    const nullifier = attachment.nullifier;
+    const place = this.held.get(nullifier);
+    if (!place || place.token !== token) return false;
+    this.forgetHeldPlace(nullifier);
+
+    const proposal = this.proposals.get(nullifier);
+    const proposed = proposal?.users.find(user => user.nullifier === nullifier && !user.websocket);
+    const reveal = this.reveals.get(nullifier);
+    const side = reveal?.sides.find(s => s.nullifier === nullifier && !s.websocket);
+    const queued = this.queue.get(nullifier);
+    const restored = proposed ?? (queued?.websocket === null ? queued : undefined);
+    this.updateAttachment(ws, {
+      resumeToken: place.token,
+      interests: restored?.interests ?? attachment.interests,
+      answers: restored?.answers ?? attachment.answers,
+      groupSize: restored?.groupSize ?? attachment.groupSize,
+    });
+
+    if (proposal && proposed) {
+      proposed.websocket = ws;
+      this.updateAttachment(ws, {
+        queuedAt: proposed.joinedAt,
+        proposal: { id: proposal.id, expiresAt: proposal.expiresAt, acked: false },
+      });
+      ws.send(encodeMessage({ type: 'queue_resumed', payload: { token: place.token } }));
+      ws.send(encodeMessage({
+        type: 'match_proposed',
+        payload: { proposalId: proposal.id, expiresAt: proposal.expiresAt },
+      }));
+    } else if (reveal && side) {
+      side.websocket = ws;
+      this.updateAttachment(ws, {
+        reveal: { id: reveal.id, matchId: reveal.matchId, handle: side.handle, decision: side.decision, expiresAt: reveal.expiresAt },
+      });
+      ws.send(encodeMessage({ type: 'queue_resumed', payload: { token: place.token } }));
+      // A side that already decided has seen the match
+      if (side.introduction && side.decision === null) {
+        ws.send(encodeMessage({ type: 'matched', payload: side.introduction }));
+      }
+    } else if (queued && queued.websocket === null) {
+      // Same joinedAt, so the same place in line
+      this.enqueue({ ...queued, websocket: ws });
+      ws.send(encodeMessage({ type: 'queue_resumed', payload: { token: place.token } }));
+      this.sendQueueStatus(this.queue.get(nullifier)!);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  // Give up a held place, along with its ready-check or undecided match
+  private releaseHeldPlace(nullifier: string): void {
+    if (!this.held.has(nullifier)) return;
+    this.forgetHeldPlace(nullifier);
+
+    const proposal = this.proposals.get(nullifier);
+    if (proposal?.users.some(user => user.nullifier === nullifier && !user.websocket)) {
+      this.cancelProposal(proposal, [nullifier]);
+    }
+    const reveal = this.reveals.get(nullifier);
+    if (reveal?.sides.some(side => side.nullifier === nullifier && !side.websocket)) {
+      this.resolveReveal(reveal, 'passed');
+    }
+    if (this.queue.get(nullifier)?.websocket === null) {
+      this.removeFromQueue(nullifier);
+    }
+  }
+
+  private forgetHeldPlace(nullifier: string): void {
+    this.held.delete(nullifier);
+    this.state.waitUntil(
+      this.state.storage.delete(HELD_KEY_PREFIX + nullifier).catch(error => {
+        console.error('Failed to delete held place:', error);
+      })
+    );
+  }
+
+  private expireHeldPlaces(): void {
+    const now = Date.now();
+    for (const [nullifier, place] of this.held) {
+      if (place.expiresAt <= now) this.releaseHeldPlace(nullifier);
+    }
+  }
+
+  // Send `user` their status now, whether or not it changed
+  private sendQueueStatus(user: QueuedUser): void {
+    const index = this.order.indexOf(user);
+    if (index < 0) return;
+    if (this.event) {
+      this.sendEventStatus(user.websocket, this.event);
+      return;
+    }
+    user.sentStatus = undefined;
+    this.sendQueueStatusIfChanged(user, index, Date.now());
+  }
+
+  // Returns false when the socket can no longer be written to
+  private sendQueueStatusIfChanged(user: QueuedUser, index: number, now: number): boolean {
+    // Held places catch up when resumed
+    if (!user.websocket) return true;
+
+    const position = displayPosition(index + 1);
+    const tier = tierFor(user, now).name;
+    const estimatedWaitSeconds = estimateWaitSeconds(this.stats, index + 1);
+    const { online, matchedLastHour } = this.stats;
+    const status = `${position}|${tier}|${estimatedWaitSeconds}|${online}|${matchedLastHour}`;
+    if (status === user.sentStatus) return true;
+
+    try {
+      user.websocket.send(encodeMessage({
+        type: 'queue_status',
+        payload: { position, total: this.queue.size, tier, estimatedWaitSeconds, online, matchedLastHour },
+      }));
+      user.sentStatus = status;
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private sendEventStatus(ws: WebSocket | null, event: EventState): void {
+    const payload: EventStatusPayload = {
+      eventId: event.id,
+      title: event.title,
+      round: event.round,
+      nextRoundAt: nextEventRoundAt(event, event.round),
+      endsAt: event.endsAt,
+      participants: this.state.getWebSockets().length,
+    };
+    try {
+      ws?.send(encodeMessage({ type: 'event_status', payload }));
+    } catch (e) {}
+  }
+
+  // Schedule a matching pass soon, without pushing back an earlier one
+  private async startMatchingProcess(delayMs = 1000): Promise<void> {
+    const next = Date.now() + delayMs;
+    const current = await this.state.storage.getAlarm();
+    if (current === null || current > next) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+
+  private sendQuotaExhausted(ws: WebSocket | null, credits: CreditBalance): void {
+    try {
+      ws?.send(encodeMessage({
+        type: 'quota_exhausted',
+        payload: { count: freeMatchesUsed(credits), limit: FREE_DAILY_MATCHES, credits },
+      }));
+    } catch (e) {}
+  }
+
+  // Drop a user banned while waiting, along with any held place
+  private sendAwayBanned(user: QueuedUser, ban: Ban): void {
+    if (this.held.has(user.nullifier)) this.forgetHeldPlace(user.nullifier);
+    if (!user.websocket) return;
+    this.updateAttachment(user.websocket, { resumeToken: null });
+    try {
+      user.websocket.send(encodeMessage(banMessage(ban)));
+      user.websocket.close(CLOSE_CODES.BANNED, 'Banned');
+    } catch (e) {}
+  }
+
+  // Put a user back at their original position after a failed pairing,
+  // unless their socket has since been replaced or closed (and not held)
+  private requeue(user: QueuedUser): void {
+    const present = user.websocket
+      ? this.state.getWebSockets(user.nullifier).includes(user.websocket)
+      : this.held.has(user.nullifier);
+    if (present && !this.queue.has(user.nullifier)) {
+      this.enqueue(user);
+    }
+  }
+
+  private async loadQuiz(): Promise<Quiz | null> {
+    if (Date.now() - this.quizLoadedAt > QUIZ_CACHE_MS) {
+      try {
+        this.quiz = await getActiveQuiz(this.env);
+        this.quizLoadedAt = Date.now();
+      } catch (error) {
+        console.error('Failed to load quiz:', error);
+      }
+    }
+    return this.quiz;
+  }
+
+  // Load recent partners and blocks for queued humans that don't have them
+  // yet and forget those no longer waiting
+  private async loadPairingHistory(): Promise<void> {
+    for (const nullifier of this.recentPartners.keys()) {
+      if (!this.queue.has(nullifier)) {
+        this.recentPartners.delete(nullifier);
+        this.blocked.delete(nullifier);
+        this.rematchEndsAt.delete(nullifier);
+      }
+    }
+
+    const missing = Array.from(this.queue.keys()).filter(nullifier => !this.recentPartners.has(nullifier));
+    if (missing.length === 0) return;
+
+    const since = Date.now() - getRematchWindowMs(this.env);
+    const [partners, blocked] = await Promise.all([
+      getRecentPartners(this.env, missing, since),
+      getBlockedPartners(this.env, missing),
+    ]);
+    const now = Date.now();
+    for (const nullifier of missing) {
+      this.recentPartners.set(nullifier, partners.get(nullifier) ?? new Map());
+      this.blocked.set(nullifier, blocked.get(nullifier) ?? new Set());
+      this.trackRematchWindows(nullifier, now);
+    }
+  }
+
+  // Note when the first of a human's running rematch windows ends, when
+  // they may become matchable again
+  private trackRematchWindows(nullifier: string, now: number): void {
+    const windowMs = getRematchWindowMs(this.env);
+    let endsAt = Infinity;
+    for (const matchedAt of this.recentPartners.get(nullifier)?.values() ?? []) {
+      if (matchedAt + windowMs > now) endsAt = Math.min(endsAt, matchedAt + windowMs);
+    }
+    if (endsAt === Infinity) this.rematchEndsAt.delete(nullifier);
+    else this.rematchEndsAt.set(nullifier, endsAt);
+  }
+
+  private isBlocked(a: QueuedUser, b: QueuedUser): boolean {
+    return Boolean(this.blocked.get(a.nullifier)?.has(b.nullifier) || this.blocked.get(b.nullifier)?.has(a.nullifier));
+  }
+
+  private metRecently(a: QueuedUser, b: QueuedUser, now: number): boolean {
+    const matchedAt = this.recentPartners.get(a.nullifier)?.get(b.nullifier)
+      ?? this.recentPartners.get(b.nullifier)?.get(a.nullifier);
+    return matchedAt !== undefined && now - matchedAt < getRematchWindowMs(this.env);
+  }
+
+  private rememberPartners(a: QueuedUser, b: QueuedUser, matchedAt: number): void {
+    this.recentPartners.get(a.nullifier)?.set(b.nullifier, matchedAt);
+    this.recentPartners.get(b.nullifier)?.set(a.nullifier, matchedAt);
+    this.trackRematchWindows(a.nullifier, matchedAt);
+    this.trackRematchWindows(b.nullifier, matchedAt);
+  }
+
+  private compatibility(a: QueuedUser, b: QueuedUser): number | null {
+    return this.quiz ? compareAnswers(this.quiz, a.answers, b.answers).score : null;
+  }
+
+  // The fresh users a pass considers: the MAX_FRESH_PER_PASS longest waiting
+  private freshBatch(): QueuedUser[] {
+    const users = this.order.values();
+    if (users.length > this.fresh.size) {
+      return Array.from(this.fresh, nullifier => this.queue.get(nullifier))
+        .filter((user): user is QueuedUser => user !== undefined)
+        .sort(compareEntries)
+        .slice(0, MAX_FRESH_PER_PASS);
+    }
+    const batch: QueuedUser[] = [];
+    for (const user of users) {
+      if (!this.fresh.has(user.nullifier)) continue;
+      batch.push(user);
+      if (batch.length === MAX_FRESH_PER_PASS) break;
+    }
+    return batch;
+  }
+
+  // Pick the next pair (see pairing.ts) involving one of `fresh`
+  private findPair(fresh: readonly QueuedUser[], now: number): [QueuedUser, QueuedUser] | null {
+    return findPair({
+      users: this.order.values(),
+      fresh,
+      now,
+      allowed: (a, b) => !this.isBlocked(a, b) && !this.metRecently(a, b, now),
+      compatibility: (a, b) => this.compatibility(a, b),
+    });
+  }
+
+  /**
+   * Pick the next group room: for each of `fresh` who asked for a room, if
+   * enough others asked for the same size, fill a room with the candidates
+   * sharing the most tags with them, skipping anyone blocked by a member.
+   * A room that needs no fresh user would have been found on an earlier
+   * pass.
+   */
+  private findGroup(fresh: readonly QueuedUser[], now: number): QueuedUser[] | null {
+    if (!fresh.some(user => user.groupSize !== null)) return null;
+    const bySize = new Map<number, QueuedUser[]>();
+    for (const user of this.order.values()) {
+      if (user.groupSize === null) continue;
+      const users = bySize.get(user.groupSize) ?? [];
+      users.push(user);
+      bySize.set(user.groupSize, users);
+    }
+
+    for (const anchor of fresh) {
+      if (anchor.groupSize === null) continue;
+      const size = anchor.groupSize;
+      const users = bySize.get(size) ?? [];
+      if (users.length < size) continue;
+
+      const candidates = users
+        .filter(candidate => candidate !== anchor)
+        .map(candidate => ({ candidate, overlap: sharedInterests(anchor.interests, candidate.interests).length }))
+        .filter(({ candidate, overlap }) =>
+          overlap >= Math.min(tierFor(anchor, now).minOverlap, tierFor(candidate, now).minOverlap))
+        // Stable sort: ties go to whoever has waited longest
+        .sort((a, b) => b.overlap - a.overlap);
+
+      const room = [anchor];
+      for (const { candidate } of candidates) {
+        if (room.some(member => this.isBlocked(member, candidate))) continue;
+        room.push(candidate);
+        if (room.length === size) return room;
+      }
+    }
+
+    return null;
+  }
+
+  // Ask everyone to confirm they are still there before committing the pair or room
+  private async propose(users: QueuedUser[]): Promise<void> {
+    // A held user is asked when they resume; the others wait for them
+    const heldUntil = Math.max(0, ...users
+      .map(user => user.websocket ? 0 : this.held.get(user.nullifier)?.expiresAt ?? 0));
+    const proposal: Proposal = {
+      id: crypto.randomUUID(),
+      users,
+      acked: new Set(),
+      expiresAt: Math.max(Date.now() + READY_CHECK_TIMEOUT_MS, heldUntil),
+    };
+
+    const unreachable: string[] = [];
+    for (const user of proposal.users) {
+      this.proposals.set(user.nullifier, proposal);
+      this.updateAttachment(user.websocket, {
+        queuedAt: user.joinedAt,
+        proposal: { id: proposal.id, expiresAt: proposal.expiresAt, acked: false },
+      });
+      if (!user.websocket) continue;
+      try {
+        user.websocket.send(encodeMessage({
+          type: 'match_proposed',
+          payload: { proposalId: proposal.id, expiresAt: proposal.expiresAt },
+        }));
+      } catch (e) {
+        unreachable.push(user.nullifier);
+      }
+    }
+
+    if (unreachable.length > 0) {
+      this.cancelProposal(proposal, unreachable);
+      return;
+    }
+    await this.startMatchingProcess(READY_CHECK_TIMEOUT_MS);
+  }
+
+  /**
+   * Call off a ready-check. The `dropped` sides leave the queue; everyone
+   * else returns to their original position, uncharged.
+   */
+  private cancelProposal(proposal: Proposal, dropped: string[]): void {
+    for (const user of proposal.users) {
+      if (this.proposals.get(user.nullifier) === proposal) this.proposals.delete(user.nullifier);
+    }
+
+    for (const user of proposal.users) {
+      if (dropped.includes(user.nullifier)) {
+        this.updateAttachment(user.websocket, { queuedAt: null, proposal: null });
+        continue;
+      }
+      this.requeue(user);
+      const requeued = this.queue.get(user.nullifier);
+      if (requeued) this.sendQueueStatus(requeued);
+    }
+  }
+
+  // Drop whoever hasn't acknowledged an expired ready-check
+  private expireProposals(): void {
+    const now = Date.now();
+    for (const proposal of new Set(this.proposals.values())) {
+      if (proposal.expiresAt > now) continue;
+
+      const missed = proposal.users.filter(user => !proposal.acked.has(user.nullifier));
+      for (const user of missed) {
+        try {
+          user.websocket?.send(encodeMessage({
+            type: 'ready_check_missed',
+            payload: { message: 'You missed the ready check and left the queue' },
+          }));
+        } catch (e) {}
+      }
+      this.cancelProposal(proposal, missed.map(user => user.nullifier));
+    }
+  }
+
+  // Both sides acknowledged: charge them and hand out the match
+  private async confirmMatch(proposal: Proposal): Promise<void> {
+    for (const user of proposal.users) this.proposals.delete(user.nullifier);
+    for (const user of proposal.users) {
+      this.updateAttachment(user.websocket, { queuedAt: null, proposal: null });
+    }
+
+    // Bans are checked when a socket connects; one issued since then must
+    // not get a match. Everyone else in the proposal goes back to wait.
+    let bans: (Ban | null)[];
+    try {
+      bans = await Promise.all(proposal.users.map(user => getActiveBan(this.env, user.nullifier)));
+    } catch (error) {
+      console.error('Failed to check bans:', error);
+      for (const user of proposal.users) this.requeue(user);
+      await this.startMatchingProcess();
+      return;
+    }
+    if (bans.some(ban => ban !== null)) {
+      proposal.users.forEach((user, index) => {
+        const ban = bans[index];
+        if (ban) this.sendAwayBanned(user, ban);
+        else this.requeue(user);
+      });
+      await this.startMatchingProcess();
+      return;
+    }
+
+    if (proposal.users.length > 2) {
+      await this.confirmGroup(proposal);
+      return;
+    }
+    const [user1, user2] = proposal.users;
+
+    // Charge each side a credit (nothing during events or with a pass); a
+    // failure on either side refunds the other and sends the short user away
+    const cost = this.event ? 0 : 1;
+    const charges: MatchCharge[] = [];
+    try {
+      const charge1 = await chargeMatch(this.env, user1.wallet, cost);
+      if (!charge1.covered) {
+        this.sendQuotaExhausted(user1.websocket, charge1.balance);
+        this.requeue(user2);
+        await this.startMatchingProcess();
+        return;
+      }
+      charges.push(charge1);
+
+      const charge2 = await chargeMatch(this.env, user2.wallet, cost);
+      if (!charge2.covered) {
+        await this.refundCharges(proposal.users, charges);
+        this.sendQuotaExhausted(user2.websocket, charge2.balance);
+        this.requeue(user1);
+        await this.startMatchingProcess();
+        return;
+      }
+      charges.push(charge2);
+    } catch (error) {
+      // Give back whatever was already taken, leave both waiting and retry
+      // on the next alarm
+      console.error('Failed to consume match credits:', error);
+      await this.refundCharges(proposal.users, charges);
+      this.requeue(user1);
+      this.requeue(user2);
+      await this.startMatchingProcess();
+      return;
+    }
+
+    const matchedAt = Date.now();
+    const shared = sharedInterests(user1.interests, user2.interests);
+    const { score, sharedAnswers } = this.quiz
+      ? compareAnswers(this.quiz, user1.answers, user2.answers)
+      : { score: null, sharedAnswers: [] };
+
+    this.rememberPartners(user1, user2, matchedAt);
+    if (this.event) this.rememberEventPair(user1, user2);
+    this.recordWaits(matchedAt, [matchedAt - user1.joinedAt, matchedAt - user2.joinedAt]);
+    const handle1 = generateHandle();
+    let handle2 = generateHandle();
+    while (handle2 === handle1) handle2 = generateHandle();
+
+    let matchId: number | null = null;
+    try {
+      matchId = await recordMatch(this.env, {
+        nullifierA: user1.nullifier,
+        nullifierB: user2.nullifier,
+        handleA: handle1,
+        handleB: handle2,
+        compatibility: score,
+        matchedAt,
+      });
+    } catch (error) {
+      console.error('Failed to record match:', error);
+    }
+
+    const reveal: PendingReveal = {
+      id: proposal.id,
+      matchId,
+      sides: [
+        { nullifier: user1.nullifier, username: user1.username, handle: handle1, decision: null, websocket: user1.websocket, introduction: null },
+        { nullifier: user2.nullifier, username: user2.username, handle: handle2, decision: null, websocket: user2.websocket, introduction: null },
+      ],
+      expiresAt: matchedAt + DECISION_TIMEOUT_MS,
+    };
+    for (const side of reveal.sides) {
+      this.reveals.set(side.nullifier, reveal);
+      this.updateAttachment(side.websocket, {
+        reveal: { id: reveal.id, matchId, handle: side.handle, decision: null, expiresAt: reveal.expiresAt },
+      });
+    }
+
+    // Each side learns only the partner's handle and what they have in common
+    reveal.sides.forEach((side, index) => {
+      const partner = reveal.sides[1 - index];
+      side.introduction = {
+        matchId,
+        handle: partner.handle,
+        matchedAt,
+        matchCount: freeMatchesUsed(charges[index].balance),
+        credits: charges[index].balance,
+        passExpiresAt: charges[index].passExpiresAt,
+        sharedInterests: shared,
+        compatibility: score,
+        sharedAnswers,
+        decisionExpiresAt: reveal.expiresAt,
+      };
+      try {
+        side.websocket?.send(encodeMessage({ type: 'matched', payload: side.introduction }));
+      } catch (e) {}
+    });
+    await this.startMatchingProcess(DECISION_TIMEOUT_MS);
+  }
+
+  // Give back what a pairing that fell through took; `charges[i]` is what
+  // `users[i]` paid
+  private async refundCharges(users: QueuedUser[], charges: MatchCharge[]): Promise<void> {
+    for (const [index, charge] of charges.entries()) {
+      if (!charge.consumptionId) continue;
+      try {
+        await refundCredits(this.env, users[index].wallet, charge.consumptionId);
+      } catch (error) {
+        console.error('Failed to refund match credits:', error);
+      }
+    }
+  }
+
+  /**
+   * Everyone in a room acknowledged: charge each member GROUP_MATCH_COST
+   * and introduce them all by username. A member without enough credits
+   * is sent away and the rest return to their positions, refunded.
+   */
+  private async confirmGroup(proposal: Proposal): Promise<void> {
+    const members = proposal.users;
+    const charges: MatchCharge[] = [];
+    try {
+      for (const member of members) {
+        const charge = await chargeMatch(this.env, member.wallet, GROUP_MATCH_COST);
+        if (!charge.covered) {
+          await this.refundCharges(members, charges);
+          this.sendQuotaExhausted(member.websocket, charge.balance);
+          for (const other of members) {
+            if (other !== member) this.requeue(other);
+          }
+          await this.startMatchingProcess();
+          return;
+        }
+        charges.push(charge);
+      }
+    } catch (error) {
+      // Give back whatever was already taken, leave everyone waiting and
+      // retry on the next alarm
+      console.error('Failed to consume group match credits:', error);
+      await this.refundCharges(members, charges);
+      for (const member of members) this.requeue(member);
+      await this.startMatchingProcess();
+      return;
+    }
+
+    const matchedAt = Date.now();
+    this.recordWaits(matchedAt, members.map(member => matchedAt - member.joinedAt));
+    const shared = members.reduce((tags, member) => sharedInterests(tags, member.interests), members[0].interests);
+    try {
+      await recordGroupMatch(this.env, members, matchedAt);
+    } catch (error) {
+      console.error('Failed to record group match:', error);
+    }
+
+    members.forEach((member, index) => {
+      const payload: GroupMatchedPayload = {
+        roomId: proposal.id,
+        size: members.length,
+        members: members.filter(other => other !== member).map(other => other.username),
+        matchCount: freeMatchesUsed(charges[index].balance),
+        credits: charges[index].balance,
+        passExpiresAt: charges[index].passExpiresAt,
+        sharedInterests: shared,
+      };
+      try {
+        member.websocket?.send(encodeMessage({ type: 'group_matched', payload }));
+      } catch (e) {}
+    });
+  }
+
+  /**
+   * Settle a pending reveal. Usernames go out only when both connected;
+   * otherwise both sides just learn the match is over.
+   */
+  private resolveReveal(reveal: PendingReveal, outcome: 'connected' | 'passed'): void {
+    for (const side of reveal.sides) {
+      if (this.reveals.get(side.nullifier) === reveal) this.reveals.delete(side.nullifier);
+      this.updateAttachment(side.websocket, { reveal: null });
+    }
+
+    reveal.sides.forEach((side, index) => {
+      const partner = reveal.sides[1 - index];
+      try {
+        side.websocket?.send(encodeMessage(outcome === 'connected'
+          ? { type: 'match_revealed', payload: { matchId: reveal.matchId, matchedUsername: partner.username } }
+          : { type: 'match_closed', payload: { matchId: reveal.matchId } }));
+      } catch (e) {}
+    });
+
+    if (reveal.matchId !== null) {
+      this.state.waitUntil(setMatchOutcome(this.env, reveal.matchId, outcome, reveal.sides).catch(error => {
+        console.error('Failed to record match outcome:', error);
+      }));
+    }
+    if (this.event) this.returnToEvent(reveal, this.event);
+  }
+
+  // Undecided matches past their deadline count as passed
+  private expireReveals(): void {
+    const now = Date.now();
+    for (const reveal of new Set(this.reveals.values())) {
+      if (reveal.expiresAt <= now) this.resolveReveal(reveal, 'passed');
+    }
+  }
+
+  private async tryMatch(): Promise<void> {
+    if (this.event) {
+      await this.runEventRound(this.event);
+      return;
+    }
+    if (this.queue.size >= 2) {
+      await this.loadQuiz();
+      try {
+        await this.loadPairingHistory();
+      } catch (error) {
+        // Without history we can't rule out rematches or blocks; wait for the next pass
+        console.error('Failed to load match history:', error);
+        return;
+      }
+    }
+
+    // Users who moved to a looser tier since the last pass may now match,
+    // as may those whose rematch window with someone ran out
+    const now = Date.now();
+    this.order.forEachCrossing(this.lastPassAt, now, TIER_THRESHOLDS, user => this.fresh.add(user.nullifier));
+    this.lastPassAt = now;
+    for (const [nullifier, endsAt] of this.rematchEndsAt) {
+      if (endsAt > now) continue;
+      if (this.queue.has(nullifier)) this.fresh.add(nullifier);
+      this.trackRematchWindows(nullifier, now);
+    }
+
+    while (this.queue.size >= 2) {
+      const fresh = this.freshBatch();
+      const pair = this.findGroup(fresh, now) ?? this.findPair(fresh, now);
+      if (!pair) {
+        // Nobody in the batch can be paired until someone new arrives or
+        // waits longer; any fresh users left over get the next pass
+        for (const user of fresh) this.fresh.delete(user.nullifier);
+        return;
+      }
+      // Take everyone out before any await so no other pass can pick them
+      for (const user of pair) this.removeFromQueue(user.nullifier);
+      await this.propose(pair);
+    }
+  }
+
+  // Users who found nobody in their shard in time move to the global pool.
+  // Runs after a matching pass so they get one last chance here.
+  private fallBackToGlobal(): void {
+    // Event participants wait for the next round instead
+    if (this.event) return;
+    const cutoff = Date.now() - getFallbackMs(this.env);
+    const expired: QueuedUser[] = [];
+    for (const user of this.order.values()) {
+      if (user.joinedAt > cutoff) break;
+      // Held users move on once they resume
+      if (user.shard !== GLOBAL_SHARD && user.websocket) expired.push(user);
+    }
+
+    for (const user of expired) {
+      this.removeFromQueue(user.nullifier);
+      try {
+        user.websocket?.send(encodeMessage({ type: 'queue_fallback', payload: { pool: GLOBAL_SHARD } }));
+        user.websocket?.close(CLOSE_CODES.QUEUE_FALLBACK, 'Moving to global pool');
+      } catch (e) {}
+    }
+  }
+
+  // Coalesced per tick: only users whose position moved or whose tier
+  // changed since the last flush are visited, and only real changes sent.
+  // `total` rides along but doesn't trigger a send on its own.
+  private flushQueueStatus(): void {
+    // Event participants hear from the queue once per round instead
+    if (this.event) return;
+    const now = Date.now();
+    if (now - this.statsAt >= STATS_REFRESH_MS && this.refreshStats(now)) {
+      this.order.markAllDirty();
+    }
+
+    const dead: string[] = [];
+    this.order.forEachChanged(this.lastStatusAt, now, TIER_THRESHOLDS, (user, index) => {
+      if (!this.sendQueueStatusIfChanged(user, index, now)) dead.push(user.nullifier);
+    });
+    this.lastStatusAt = now;
+
+    for (const nullifier of dead) this.removeFromQueue(nullifier);
+  }
+
+  // Start running `config` as an event; repeated calls are no-ops
+  private openEvent(config: EventConfig): void {
+    if (this.event) return;
+    this.event = { ...config, round: 0, closed: false };
+    this.saveEvent();
+  }
+
+  /**
+   * Close the event: everyone waiting or held gets `event_closed` and is
+   * disconnected. Ready-checks and undecided matches play out; their
+   * sides are let go when they settle.
+   */
+  private closeEvent(config: EventConfig): void {
+    this.event = { ...config, round: this.event?.round ?? 0, closed: true };
+    this.saveEvent();
+    this.eventPairs.clear();
+    this.state.waitUntil(this.state.storage.delete(EVENT_PAIRS_KEY).catch(() => {}));
+
+    for (const nullifier of Array.from(this.held.keys())) this.releaseHeldPlace(nullifier);
+    for (const ws of this.state.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+      if (attachment && (this.proposals.has(attachment.nullifier) || this.reveals.has(attachment.nullifier))) continue;
+      if (attachment) this.removeFromQueue(attachment.nullifier);
+      this.endEventFor(ws);
+    }
+  }
+
+  private endEventFor(ws: WebSocket): void {
+    if (!this.event) return;
+    try {
+      ws.send(encodeMessage({ type: 'event_closed', payload: { eventId: this.event.id } }));
+      ws.close(CLOSE_CODES.EVENT_CLOSED, 'Event closed');
+    } catch (e) {}
+  }
+
+  private saveEvent(): void {
+    this.state.waitUntil(
+      this.state.storage.put(EVENT_KEY, this.event).catch(error => {
+        console.error('Failed to save event:', error);
+      })
+    );
+  }
+
+  private rememberEventPair(a: QueuedUser, b: QueuedUser): void {
+    this.eventPairs.add(pairKey(a.nullifier, b.nullifier));
+    this.state.waitUntil(
+      this.state.storage.put(EVENT_PAIRS_KEY, Array.from(this.eventPairs)).catch(error => {
+        console.error('Failed to save event pairs:', error);
+      })
+    );
+  }
+
+  // After an event match, both sides wait for the next round, or are let
+  // go if the event has closed meanwhile
+  private returnToEvent(reveal: PendingReveal, event: EventState): void {
+    for (const side of reveal.sides) {
+      const ws = side.websocket;
+      if (!ws || ws.readyState !== WebSocket.OPEN) continue;
+      if (event.closed) {
+        this.endEventFor(ws);
+        continue;
+      }
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+      if (!attachment) continue;
+      this.addToQueue(attachment, ws);
+      this.sendQueueStatus(this.queue.get(side.nullifier)!);
+    }
+  }
+
+  /**
+   * Play an event round if one is due: pair everyone waiting at once,
+   * then tell whoever sat it out when the next round starts.
+   */
+  private async runEventRound(event: EventState): Promise<void> {
+    if (event.closed) {
+      // Partners requeued by a ready-check that fell through after closing
+      for (const user of Array.from(this.order.values())) {
+        this.removeFromQueue(user.nullifier);
+        if (user.websocket) this.endEventFor(user.websocket);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    const due = eventRoundsDue(event, now);
+    if (due <= event.round) return;
+
+    if (this.queue.size >= 2) {
+      await this.loadQuiz();
+      try {
+        await this.loadPairingHistory();
+      } catch (error) {
+        // Retried on the next alarm, still within the round
+        console.error('Failed to load match history:', error);
+        return;
+      }
+    }
+
+    event.round = due;
+    this.saveEvent();
+    const pairs = this.pairEventRound(now);
+    // Take everyone out before any await, as in a regular pass
+    for (const pair of pairs) {
+      for (const user of pair) this.removeFromQueue(user.nullifier);
+    }
+    for (const pair of pairs) await this.propose(pair);
+    for (const user of this.order.values()) this.sendQueueStatus(user);
+  }
+
+  /**
+   * Pairs for an event round (see round-pairs.ts), ranked as in findPair
+   * regardless of tier. Pairs who already met in the event are skipped.
+   */
+  private pairEventRound(now: number): [QueuedUser, QueuedUser][] {
+    return findRoundPairs(this.order.values(), (a, b) => {
+      if (this.eventPairs.has(pairKey(a.nullifier, b.nullifier))) return null;
+      if (this.isBlocked(a, b) || this.metRecently(a, b, now)) return null;
+      const overlap = sharedInterests(a.interests, b.interests).length;
+      return overlap * INTEREST_WEIGHT + (this.compatibility(a, b) ?? NEUTRAL_COMPATIBILITY);
+    });
+  }
+
+  private recordWaits(now: number, waits: number[]): void {
+    this.matchBuckets = recordMatchedUsers(this.matchBuckets, now, waits);
+    this.state.waitUntil(
+      this.state.storage.put(MATCH_STATS_KEY, this.matchBuckets).catch(error => {
+        console.error('Failed to save match stats:', error);
+      })
+    );
+  }
+
+  // Returns whether anything users are shown changed
+  private refreshStats(now: number): boolean {
+    const previous = this.stats;
+    this.stats = computeStats(this.matchBuckets, now, this.state.getWebSockets().length);
+    this.statsAt = now;
+    return this.stats.online !== previous.online
+      || this.stats.matchedLastHour !== previous.matchedLastHour
+      || this.stats.usersPerMinute !== previous.usersPerMinute
+      || this.stats.averageWaitMs !== previous.averageWaitMs;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * SIWE nonce store Durable Object
+ *
+ * A single instance holds every outstanding nonce, so /api/nonce and
+ * /api/verify-siwe agree no matter which isolate serves them. Nonces are
+ * keyed by their own value, consumable exactly once and expire on a TTL.
+ * Issuance is rate-limited per client, a browser identified by the
+ * CLIENT_COOKIE, so people behind one address (CGNAT, mobile carriers)
+ * don't share a limit. A much larger per-IP limit is the backstop for
+ * clients that drop the cookie.
+ *
+ * Internal routes (called by the worker only):
+ * - POST /issue   { client, ip } → { nonce, expires } | 429
+ * - POST /consume { nonce }  → { ok }
+ */
+
+// How long an issued nonce stays valid
+export const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Long-lived cookie identifying a browser for the issuance limit
+export const CLIENT_COOKIE = 'mindalike_client';
+export const CLIENT_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+// Issuance limits per client and per IP
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX = 10;
+const IP_RATE_LIMIT_MAX = 300;
+
+// Expired entries are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface RateLimitEntry {
+  windowStart: number;
+  count: number;
+}
+
+// Generate random nonce (alphanumeric, at least 8 chars per EIP-4361)
+function generateNonce(): string {
+  const array = new Uint8Array(16);
+  crypto.getRandomValues(array);
+  return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class NonceStore implements DurableObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/issue') {
+      const { client, ip } = await request.json() as { client?: string; ip?: string };
+      return this.issue(client || 'unknown', ip || 'unknown');
+    }
+
+    if (request.method === 'POST' && url.pathname === '/consume') {
+      const { nonce } = await request.json() as { nonce?: string };
+      const ok = nonce ? await this.consume(nonce) : false;
+      return new Response(JSON.stringify({ ok }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    const nonces = await this.state.storage.list<number>({ prefix: 'nonce:' });
+    for (const [key, expires] of nonces) {
+      if (expires <= now) expired.push(key);
+    }
+
+    const limits = await this.state.storage.list<RateLimitEntry>({ prefix: 'rate:' });
+    for (const [key, entry] of limits) {
+      if (entry.windowStart + RATE_LIMIT_WINDOW_MS <= now) expired.push(key);
+    }
+
+    // storage.delete accepts at most 128 keys per call
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.state.storage.delete(expired.slice(i, i + 128));
+    }
+
+    if (nonces.size + limits.size > expired.length) {
+      await this.state.storage.setAlarm(now + SWEEP_INTERVAL_MS);
+    }
+  }
+
+  private async issue(client: string, ip: string): Promise<Response> {
+    const now = Date.now();
+    const limits: [string, number][] = [[`rate:client:${client}`, RATE_LIMIT_MAX], [`rate:ip:${ip}`, IP_RATE_LIMIT_MAX]];
+    const entries = await this.state.storage.get<RateLimitEntry>(limits.map(([key]) => key));
+
+    // Nothing is counted unless both limits allow the request
+    const updates: Record<string, RateLimitEntry> = {};
+    for (const [key, max] of limits) {
+      const entry = entries.get(key);
+      if (entry && entry.windowStart + RATE_LIMIT_WINDOW_MS > now) {
+        if (entry.count >= max) {
+          const retryAfter = Math.ceil((entry.windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+          return new Response(JSON.stringify({ error: 'Too many nonce requests' }), {
+            status: 429,
+            headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+          });
+        }
+        updates[key] = { windowStart: entry.windowStart, count: entry.count + 1 };
+      } else {
+        updates[key] = { windowStart: now, count: 1 };
+      }
+    }
+    await this.state.storage.put(updates);
+
+    const nonce = generateNonce();
+    const expires = now + NONCE_TTL_MS;
+    await this.state.storage.put(`nonce:${nonce}`, expires);
+    await this.scheduleSweep();
+
+    return new Response(JSON.stringify({ nonce, expires }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Single-use: the entry is deleted whether or not it was still valid
+  private async consume(nonce: string): Promise<boolean> {
+    const key = `nonce:${nonce}`;
+    const expires = await this.state.storage.get<number>(key);
+    if (expires === undefined) return false;
+
+    await this.state.storage.delete(key);
+    return expires > Date.now();
+  }
+
+  private async scheduleSweep(): Promise<void> {
+    const current = await this.state.storage.getAlarm();
+    if (current === null) {
+      await this.state.storage.setAlarm(Date.now() + SWEEP_INTERVAL_MS);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * One-on-one pairing
+ *
+ * The criteria MatchingQueue pairs waiting users by, and the search for
+ * the next pair. The required tag overlap relaxes through MATCH_TIERS as
+ * a user waits; among eligible candidates, pairs are ranked by shared tags
+ * plus their quiz compatibility score. Kept free of Durable Object state
+ * so the queue benchmark runs the same code.
+ *
+ * A pass only looks at pairs involving a "fresh" user, and at most
+ * MAX_FRESH_PER_PASS of them, so its cost stays linear in the queue
+ * however many users became fresh at once (a wake-up after eviction
+ * makes everyone fresh).
+ */
+
+import type { QueueEntry } from './queue-order';
+
+export interface PairingEntry extends QueueEntry {
+  interests: readonly string[];
+  // Size of the group room asked for, null for a one-on-one match
+  groupSize: number | null;
+}
+
+// Matching criteria, from strictest to loosest. A user moves to the next
+// tier once they have waited `afterMs`.
+export const MATCH_TIERS = [
+  { name: 'strong', minOverlap: 2, afterMs: 0 },
+  { name: 'shared', minOverlap: 1, afterMs: 15 * 1000 },
+  { name: 'open', minOverlap: 0, afterMs: 45 * 1000 },
+] as const;
+
+export type MatchTier = (typeof MATCH_TIERS)[number];
+
+// Waits at which a user's tier changes
+export const TIER_THRESHOLDS = MATCH_TIERS.map(tier => tier.afterMs).filter(ms => ms > 0);
+
+// Fresh users a single pass considers; the rest wait for the next one
+export const MAX_FRESH_PER_PASS = 50;
+
+// Pair ranking: each shared tag is worth this many compatibility points;
+// pairs without a quiz score count as neutral
+export const INTEREST_WEIGHT = 25;
+export const NEUTRAL_COMPATIBILITY = 50;
+
+export function tierFor(user: PairingEntry, now: number): MatchTier {
+  // Users without interests can only ever match openly
+  if (user.interests.length === 0) return MATCH_TIERS[MATCH_TIERS.length - 1];
+
+  const waited = now - user.joinedAt;
+  let tier: MatchTier = MATCH_TIERS[0];
+  for (const candidate of MATCH_TIERS) {
+    if (waited >= candidate.afterMs) tier = candidate;
+  }
+  return tier;
+}
+
+// sharedInterests(a, b).length, without building the list
+function countShared(a: readonly string[], b: readonly string[]): number {
+  let count = 0;
+  for (const tag of a) {
+    if (b.includes(tag)) count++;
+  }
+  return count;
+}
+
+export interface PairingPass<T extends PairingEntry> {
+  // Everyone waiting, oldest first
+  users: readonly T[];
+  // Users who may have become matchable since the last fruitless pass,
+  // oldest first
+  fresh: readonly T[];
+  now: number;
+  // False for pairs that must never meet (blocks, recent partners)
+  allowed: (a: T, b: T) => boolean;
+  // Quiz score of the pair, null without one
+  compatibility: (a: T, b: T) => number | null;
+}
+
+/**
+ * Pick the next pair: walking from the longest waiter, pair them with the
+ * best-ranked candidate whose tag overlap satisfies the more relaxed tier
+ * of the two. Pairs of two non-fresh users are skipped: they were already
+ * ineligible on the last pass.
+ */
+export function findPair<T extends PairingEntry>(pass: PairingPass<T>): [T, T] | null {
+  const { users, now } = pass;
+  const freshUsers = pass.fresh;
+  if (freshUsers.length === 0) return null;
+  const fresh = new Set(freshUsers);
+
+  for (let i = 0; i < users.length; i++) {
+    const user = users[i];
+    if (user.groupSize !== null) continue;
+    const candidates = fresh.has(user) ? users : freshUsers;
+    let best: T | null = null;
+    let bestRank = -1;
+
+    for (let j = 0; j < candidates.length; j++) {
+      const candidate = candidates[j];
+      if (candidate === user || candidate.groupSize !== null) continue;
+
+      // Cheapest checks first: this runs for up to every queued user
+      // against every fresh one
+      const overlap = countShared(user.interests, candidate.interests);
+      const required = Math.min(tierFor(user, now).minOverlap, tierFor(candidate, now).minOverlap);
+      if (overlap < required) continue;
+      if (!pass.allowed(user, candidate)) continue;
+
+      const rank = overlap * INTEREST_WEIGHT + (pass.compatibility(user, candidate) ?? NEUTRAL_COMPATIBILITY);
+      // Ties go to whoever has waited longest (candidates are sorted)
+      if (rank > bestRank) {
+        best = candidate;
+        bestRank = rank;
+      }
+    }
+
+    if (best) return [user, best];
+  }
+
+  return null;
+}
@@ -0,0 +1,329 @@
+/**
+ * Payments
+ *
+ * A payment starts as a payment intent: a 'pending' row in the D1
+ * `payments` table, created by /api/payments/create for a product and
+ * owned by the wallet that created it. The server picks the reference,
+ * the recipient (PAYMENT_RECIPIENT), the accepted token amounts and an
+ * expiry; the client passes the intent to MiniKit's pay command as is.
+ *
+ * Only the owning wallet can verify a payment. Verification checks the
+ * transaction with the World Developer Portal and rejects it unless it
+ * paid one of the intent's token amounts to the intent's recipient, from
+ * the owning wallet, before the expiry. It then settles the row exactly
+ * once: the transaction id is stored under a unique index, and the status
+ * change and the credit grant go out in a single D1 batch, which runs as
+ * one transaction. A reference, or a transaction, can therefore only ever
+ * buy credits once; repeat calls get the original result back. Purchased
+ * credits go to the credit ledger (see credits.ts) and roll over; passes
+ * become entitlements (see entitlements.ts).
+ *
+ * A transaction made for some other reference says nothing about this
+ * payment, which stays pending. One that does target it but fails a check
+ * fails the payment. A transaction that checks out but was paid after the
+ * expiry (by the portal's timestamp, or the server's clock without one)
+ * grants nothing: the payment becomes 'expired' with the transaction id
+ * stored, so the funds can be traced and refunded by hand.
+ */
+
+import type { Env } from './index';
+import type { CreditBalance } from '../lib/protocol';
+import { getCreditBalance, purchaseGrantStatements, settlePurchaseBalance } from './credits';
+import { getPassExpiry, passGrantStatements, settlePassExpiry } from './entitlements';
+import type { Product } from './products';
+
+export type PaymentStatus = 'pending' | 'success' | 'failed' | 'expired';
+
+// Token symbols as MiniKit's pay command and the Developer Portal name them
+export type PaymentToken = 'WLD' | 'USDCE';
+
+// An amount of a token, in its smallest unit; the shape MiniKit expects
+export interface TokenAmount {
+  symbol: PaymentToken;
+  token_amount: string;
+}
+
+// What the client needs to pay, and what the payment is checked against
+export interface PaymentIntent {
+  reference: string;
+  productId: string;
+  // Purchased credits the payment grants
+  matches: number;
+  // Set when it buys an unlimited pass of this many hours instead
+  passHours: number | null;
+  recipient: string;
+  // Any one of these settles the payment
+  tokens: TokenAmount[];
+  description: string;
+  expiresAt: number;
+}
+
+export interface Payment {
+  reference: string;
+  wallet: string;
+  status: PaymentStatus;
+  transactionId: string | null;
+  // Matches granted, once settled
+  granted: number | null;
+  // Null for payments created before intents
+  intent: PaymentIntent | null;
+}
+
+// What verifying a payment came to
+export interface PaymentSettlement {
+  // Whether this call settled it
+  settled: boolean;
+  // Credits granted
+  granted: number;
+  credits: CreditBalance;
+  passExpiresAt: number | null;
+}
+
+// A transaction as reported by the Developer Portal
+export interface PortalTransaction {
+  reference?: string;
+  transaction_status?: string;
+  from?: string;
+  to?: string;
+  token?: string;
+  token_amount?: string;
+  timestamp?: string;
+}
+
+export const TOKEN_DECIMALS: Record<PaymentToken, number> = {
+  WLD: 18,
+  USDCE: 6,
+};
+
+// How long the client has to pay an intent
+export const PAYMENT_INTENT_TTL_MS = 15 * 60 * 1000;
+
+interface PaymentRow {
+  reference_id: string;
+  wallet_address: string;
+  status: PaymentStatus;
+  transaction_id: string | null;
+  granted: number | null;
+  product_id: string | null;
+  recipient: string | null;
+  tokens: string | null;
+  description: string | null;
+  expires_at: number | null;
+  matches: number | null;
+  pass_hours: number | null;
+}
+
+const PAYMENT_COLUMNS = `reference_id, wallet_address, status, transaction_id, granted,
+  product_id, recipient, tokens, description, expires_at, matches, pass_hours`;
+
+function toPayment(row: PaymentRow): Payment {
+  return {
+    reference: row.reference_id,
+    wallet: row.wallet_address,
+    status: row.status,
+    transactionId: row.transaction_id,
+    granted: row.granted,
+    intent: row.product_id && row.recipient && row.tokens && row.expires_at !== null && row.matches !== null
+      ? {
+        reference: row.reference_id,
+        productId: row.product_id,
+        matches: row.matches,
+        passHours: row.pass_hours,
+        recipient: row.recipient,
+        tokens: JSON.parse(row.tokens) as TokenAmount[],
+        description: row.description ?? '',
+        expiresAt: row.expires_at,
+      }
+      : null,
+  };
+}
+
+// '1.5' WLD → '1500000000000000000'
+export function toTokenUnits(amount: string, token: PaymentToken): string {
+  const decimals = TOKEN_DECIMALS[token];
+  const [whole, fraction = ''] = amount.split('.');
+  const units = BigInt(whole) * BigInt(10) ** BigInt(decimals)
+    + BigInt(fraction.padEnd(decimals, '0').slice(0, decimals) || '0');
+  return units.toString();
+}
+
+/**
+ * Record a pending payment for `product` at its current prices, with a
+ * fresh reference, and return the intent the client should pay. Price
+ * and grant are fixed here, so catalog changes don't affect it.
+ */
+export async function createPaymentIntent(
+  env: Env,
+  wallet: string,
+  product: Product,
+  recipient: string
+): Promise<PaymentIntent> {
+  const intent: PaymentIntent = {
+    reference: crypto.randomUUID().replace(/-/g, ''),
+    productId: product.id,
+    matches: product.kind === 'pack' ? product.matches : 0,
+    passHours: product.passHours,
+    recipient,
+    tokens: product.prices.map(price => ({
+      symbol: price.symbol,
+      token_amount: toTokenUnits(price.amount, price.symbol),
+    })),
+    description: product.description,
+    expiresAt: Date.now() + PAYMENT_INTENT_TTL_MS,
+  };
+
+  await env.DB.prepare(
+    `INSERT INTO payments (reference_id, wallet_address, status, product_id, matches, pass_hours, recipient, tokens, description, expires_at)
+     VALUES (?, ?, 'pending', ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    intent.reference,
+    wallet,
+    intent.productId,
+    intent.matches,
+    intent.passHours,
+    intent.recipient,
+    JSON.stringify(intent.tokens),
+    intent.description,
+    intent.expiresAt
+  ).run();
+  return intent;
+}
+
+// The payment behind `reference`, if `wallet` created it
+export async function getPayment(env: Env, reference: string, wallet: string): Promise<Payment | null> {
+  const row = await env.DB.prepare(
+    `SELECT ${PAYMENT_COLUMNS} FROM payments WHERE reference_id = ? AND wallet_address = ?`
+  ).bind(reference, wallet).first<PaymentRow>();
+  return row ? toPayment(row) : null;
+}
+
+function sameUnits(a: string, b: string): boolean {
+  try {
+    return BigInt(a) === BigInt(b);
+  } catch {
+    return false;
+  }
+}
+
+// Portal statuses of a transaction that went through on chain
+const COMPLETED_TRANSACTION_STATUSES = ['mined', 'confirmed'];
+
+// Not on chain yet: the payment can be verified again once it is
+export function isTransactionPending(tx: PortalTransaction): boolean {
+  return tx.transaction_status === 'pending';
+}
+
+// Why a transaction doesn't settle a payment, and what that makes of the
+// payment: null when the transaction is for another intent and the payment
+// stays pending
+export interface TransactionMismatch {
+  error: string;
+  outcome: 'failed' | 'expired' | null;
+}
+
+/**
+ * Check a portal transaction against the payment it claims to settle.
+ * Returns why it doesn't match, or null when it does. Only completed
+ * transactions match; callers check isTransactionPending first.
+ */
+export function checkTransaction(payment: Payment, tx: PortalTransaction, now = Date.now()): TransactionMismatch | null {
+  const intent = payment.intent;
+  const fail = (error: string): TransactionMismatch => ({ error, outcome: 'failed' });
+  if (!intent) return fail('Payment has no intent');
+  if (tx.reference !== intent.reference) return { error: 'Transaction is for another payment', outcome: null };
+  if (!COMPLETED_TRANSACTION_STATUSES.includes(tx.transaction_status ?? '')) return fail('Transaction not valid');
+  if (tx.from?.toLowerCase() !== payment.wallet.toLowerCase()) return fail('Transaction was not sent from your wallet');
+  if (tx.to?.toLowerCase() !== intent.recipient.toLowerCase()) return fail('Transaction paid the wrong recipient');
+
+  const price = intent.tokens.find(token => token.symbol === tx.token);
+  if (!price) return fail('Transaction paid with the wrong token');
+  if (!tx.token_amount || !sameUnits(tx.token_amount, price.token_amount)) return fail('Transaction paid the wrong amount');
+
+  // Without a usable timestamp, the payment counts as made now
+  const timestamp = tx.timestamp ? Date.parse(tx.timestamp) : NaN;
+  const paidAt = Number.isNaN(timestamp) ? now : timestamp;
+  if (paidAt > intent.expiresAt) {
+    return { error: 'Paid after the payment expired. Contact support for a refund.', outcome: 'expired' };
+  }
+  return null;
+}
+
+// Whether `transactionId` already settled (or came too late for) some payment
+export async function isTransactionUsed(env: Env, transactionId: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    'SELECT 1 AS used FROM payments WHERE transaction_id = ?'
+  ).bind(transactionId).first<{ used: number }>();
+  return Boolean(row);
+}
+
+export async function fetchPortalTransaction(env: Env, transactionId: string): Promise<PortalTransaction | null> {
+  const url = `https://developer.worldcoin.org/api/v2/minikit/transaction/${encodeURIComponent(transactionId)}`
+    + `?app_id=${env.WORLD_APP_ID}&type=payment`;
+  const res = await fetch(url, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${env.WORLD_API_KEY}` },
+  });
+  if (!res.ok) return null;
+  return await res.json() as PortalTransaction;
+}
+
+// A pending payment whose transaction didn't check out. The transaction id
+// is not stored: it may well belong to someone else's payment.
+export async function markPaymentFailed(env: Env, payment: Payment): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE payments SET status = 'failed', verified_at = ?
+     WHERE reference_id = ? AND wallet_address = ? AND status = 'pending'`
+  ).bind(Date.now(), payment.reference, payment.wallet).run();
+}
+
+// A transaction for this payment that came in after its expiry. Its id is
+// kept: it is this wallet's payment for this reference.
+export async function markPaymentExpired(env: Env, payment: Payment, transactionId: string): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE payments SET status = 'expired', transaction_id = ?, verified_at = ?
+     WHERE reference_id = ? AND wallet_address = ? AND status = 'pending'`
+  ).bind(transactionId, Date.now(), payment.reference, payment.wallet).run();
+}
+
+/**
+ * Settle a pending payment with `transactionId` and grant what its intent
+ * promised, credits or a pass, all in one batch. The grant only applies
+ * if this call moved the row out of 'pending'; a concurrent call that got
+ * there first makes it a no-op.
+ * Throws if the transaction already settled another payment, or if the
+ * payment has no intent.
+ */
+export async function settlePayment(
+  env: Env,
+  payment: Payment,
+  transactionId: string
+): Promise<PaymentSettlement> {
+  const intent = payment.intent;
+  if (!intent) throw new Error(`Payment ${payment.reference} has no intent`);
+  const granted = intent.matches;
+
+  // changes() in the grant is the update's row count, so a lost race
+  // grants nothing
+  const update = env.DB.prepare(
+    `UPDATE payments SET status = 'success', transaction_id = ?, granted = ?, verified_at = ?
+     WHERE reference_id = ? AND wallet_address = ? AND status = 'pending'`
+  ).bind(transactionId, granted, Date.now(), payment.reference, payment.wallet);
+
+  if (intent.passHours !== null) {
+    const [updated, , expiry] = await env.DB.batch([
+      update,
+      ...passGrantStatements(env, payment.wallet, intent.passHours, payment.reference),
+    ]);
+    const passExpiresAt = await settlePassExpiry(env, payment.wallet, expiry);
+    const credits = await getCreditBalance(env, payment.wallet);
+    return { settled: updated.meta.changes === 1, granted, credits, passExpiresAt };
+  }
+
+  const [updated, , balance] = await env.DB.batch([
+    update,
+    ...purchaseGrantStatements(env, payment.wallet, granted, payment.reference),
+  ]);
+  const credits = await settlePurchaseBalance(env, payment.wallet, balance);
+  const passExpiresAt = await getPassExpiry(env, payment.wallet);
+  return { settled: updated.meta.changes === 1, granted, credits, passExpiresAt };
+}
@@ -0,0 +1,102 @@
+/**
+ * Product catalog
+ *
+ * What's on sale, from the D1 `products` table: match packs, which grant
+ * a number of purchased credits, and unlimited passes, which grant
+ * unlimited matching for a number of hours (see entitlements.ts). Each is
+ * priced in WLD, USDC or both; while its optional promo window is running,
+ * the promo prices replace the regular ones. Inactive products are neither
+ * listed nor sold, but payments already created for them still settle.
+ */
+
+import type { Env } from './index';
+import type { PaymentToken } from './payments';
+
+export interface TokenPrice {
+  symbol: PaymentToken;
+  // Whole tokens, e.g. '1' or '2.5'
+  amount: string;
+}
+
+export type ProductKind = 'pack' | 'pass';
+
+export interface Product {
+  id: string;
+  kind: ProductKind;
+  title: string;
+  description: string;
+  // Packs: credits granted
+  matches: number;
+  // Passes: how long the pass runs
+  passHours: number | null;
+  // What it costs right now
+  prices: TokenPrice[];
+  // The regular prices while a promo runs, otherwise null
+  regularPrices: TokenPrice[] | null;
+  promoEndsAt: number | null;
+}
+
+interface ProductRow {
+  id: string;
+  kind: ProductKind;
+  title: string;
+  description: string;
+  matches: number;
+  pass_hours: number | null;
+  price_wld: string | null;
+  price_usdc: string | null;
+  promo_price_wld: string | null;
+  promo_price_usdc: string | null;
+  promo_starts_at: number | null;
+  promo_ends_at: number | null;
+}
+
+const PRODUCT_COLUMNS = `id, kind, title, description, matches, pass_hours, price_wld, price_usdc,
+  promo_price_wld, promo_price_usdc, promo_starts_at, promo_ends_at`;
+
+function pricesOf(wld: string | null, usdc: string | null): TokenPrice[] {
+  const prices: TokenPrice[] = [];
+  if (wld) prices.push({ symbol: 'WLD', amount: wld });
+  if (usdc) prices.push({ symbol: 'USDCE', amount: usdc });
+  return prices;
+}
+
+function isPromoRunning(row: ProductRow, now: number): boolean {
+  return (row.promo_price_wld !== null || row.promo_price_usdc !== null)
+    && (row.promo_starts_at === null || row.promo_starts_at <= now)
+    && (row.promo_ends_at === null || now < row.promo_ends_at);
+}
+
+function toProduct(row: ProductRow, now: number): Product {
+  const regular = pricesOf(row.price_wld, row.price_usdc);
+  const promo = isPromoRunning(row, now);
+  return {
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    description: row.description,
+    matches: row.matches,
+    passHours: row.kind === 'pass' ? row.pass_hours : null,
+    prices: promo ? pricesOf(row.promo_price_wld, row.promo_price_usdc) : regular,
+    regularPrices: promo ? regular : null,
+    promoEndsAt: promo ? row.promo_ends_at : null,
+  };
+}
+
+// Active products with at least one price, in display order
+export async function listProducts(env: Env, now: number): Promise<Product[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${PRODUCT_COLUMNS} FROM products WHERE active = 1 ORDER BY position ASC, id ASC`
+  ).all<ProductRow>();
+  return results.map(row => toProduct(row, now)).filter(product => product.prices.length > 0);
+}
+
+// The product if it is on sale right now
+export async function getProduct(env: Env, id: string, now: number): Promise<Product | null> {
+  const row = await env.DB.prepare(
+    `SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = ? AND active = 1`
+  ).bind(id).first<ProductRow>();
+  if (!row) return null;
+  const product = toProduct(row, now);
+  return product.prices.length > 0 ? product : null;
+}
@@ -0,0 +1,139 @@
+/**
+ * Ordered queue with incremental position tracking
+ *
+ * MatchingQueue keeps waiting users in a sorted array (oldest first) so a
+ * position is a binary search away instead of a sort of the whole queue.
+ * Every insert and removal records the lowest index whose position may
+ * have shifted; `forEachChanged` then visits only entries from there on,
+ * plus those whose wait crossed a tier threshold since the last call.
+ * Callers compare against what they last sent and skip unchanged entries.
+ */
+
+export interface QueueEntry {
+  nullifier: string;
+  joinedAt: number;
+}
+
+// Oldest first; ties broken by nullifier so the order is stable across restarts
+export function compareEntries(a: QueueEntry, b: QueueEntry): number {
+  return a.joinedAt - b.joinedAt || (a.nullifier < b.nullifier ? -1 : a.nullifier > b.nullifier ? 1 : 0);
+}
+
+// Exact near the front; far back, positions are rounded so they only
+// change (and get sent) every few matches
+export function displayPosition(position: number): number {
+  if (position <= 100) return position;
+  if (position <= 1000) return Math.ceil(position / 10) * 10;
+  return Math.ceil(position / 100) * 100;
+}
+
+export class QueueOrder<T extends QueueEntry> {
+  private entries: T[] = [];
+  // Lowest index whose position changed since the last forEachChanged
+  private dirtyFrom = Infinity;
+
+  static from<T extends QueueEntry>(entries: Iterable<T>): QueueOrder<T> {
+    const order = new QueueOrder<T>();
+    order.entries = Array.from(entries).sort(compareEntries);
+    order.dirtyFrom = 0;
+    return order;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  values(): readonly T[] {
+    return this.entries;
+  }
+
+  insert(entry: T): number {
+    const index = this.lowerBound(entry);
+    this.entries.splice(index, 0, entry);
+    this.dirtyFrom = Math.min(this.dirtyFrom, index);
+    return index;
+  }
+
+  remove(entry: T): boolean {
+    const index = this.indexOf(entry);
+    if (index < 0) return false;
+    this.entries.splice(index, 1);
+    this.dirtyFrom = Math.min(this.dirtyFrom, index);
+    return true;
+  }
+
+  // Make the next forEachChanged visit every entry
+  markAllDirty(): void {
+    this.dirtyFrom = 0;
+  }
+
+  // -1 when absent
+  indexOf(entry: QueueEntry): number {
+    const index = this.lowerBound(entry);
+    const found = this.entries[index];
+    return found && found.nullifier === entry.nullifier && found.joinedAt === entry.joinedAt ? index : -1;
+  }
+
+  /**
+   * Visit entries whose position may have changed, or whose wait crossed
+   * one of `thresholds` (ms) in (since, now], each once, front to back.
+   * Resets the dirty marker.
+   */
+  forEachChanged(since: number, now: number, thresholds: readonly number[], visit: (entry: T, index: number) => void): void {
+    const ranges = this.crossingRanges(since, now, thresholds);
+    if (this.dirtyFrom < this.entries.length) ranges.push([this.dirtyFrom, this.entries.length]);
+    this.dirtyFrom = Infinity;
+    this.visitRanges(ranges, visit);
+  }
+
+  // Visit entries whose wait crossed one of `thresholds` (ms) in (since, now]
+  forEachCrossing(since: number, now: number, thresholds: readonly number[], visit: (entry: T, index: number) => void): void {
+    this.visitRanges(this.crossingRanges(since, now, thresholds), visit);
+  }
+
+  // Entries that crossed threshold t joined in (since - t, now - t]
+  private crossingRanges(since: number, now: number, thresholds: readonly number[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const threshold of thresholds) {
+      const start = this.upperBoundJoinedAt(since - threshold);
+      const end = this.upperBoundJoinedAt(now - threshold);
+      if (start < end) ranges.push([start, end]);
+    }
+    return ranges;
+  }
+
+  // Visit each index covered by `ranges` once, front to back
+  private visitRanges(ranges: [number, number][], visit: (entry: T, index: number) => void): void {
+    ranges.sort((a, b) => a[0] - b[0]);
+    let next = 0;
+    for (const [start, end] of ranges) {
+      for (let i = Math.max(start, next); i < end; i++) {
+        visit(this.entries[i], i);
+      }
+      next = Math.max(next, end);
+    }
+  }
+
+  private lowerBound(entry: QueueEntry): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareEntries(this.entries[mid], entry) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First index with joinedAt > time
+  private upperBoundJoinedAt(time: number): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.entries[mid].joinedAt <= time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Rolling queue statistics
+ *
+ * Each MatchingQueue counts the users it matched, and how long they
+ * waited, in one-minute buckets covering the last hour. From those it
+ * derives the numbers shown in `queue_status`: people matched in the last
+ * hour and an estimated wait for a given queue position.
+ */
+
+export interface MatchBucket {
+  // Start of the minute, Unix epoch milliseconds
+  minute: number;
+  // Users matched (two per pair) and their summed wait
+  users: number;
+  waitMs: number;
+}
+
+export interface QueueStats {
+  online: number;
+  matchedLastHour: number;
+  // Users matched per minute, averaged over RATE_WINDOW_MS
+  usersPerMinute: number;
+  averageWaitMs: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Window for the match rate: short enough to follow the time of day
+const RATE_WINDOW_MS = 15 * MINUTE_MS;
+
+export function recordMatchedUsers(buckets: MatchBucket[], now: number, waits: number[]): MatchBucket[] {
+  const minute = now - (now % MINUTE_MS);
+  const kept = buckets.filter(bucket => bucket.minute > now - HOUR_MS);
+  let current = kept.find(bucket => bucket.minute === minute);
+  if (!current) {
+    current = { minute, users: 0, waitMs: 0 };
+    kept.push(current);
+  }
+  current.users += waits.length;
+  current.waitMs += waits.reduce((sum, wait) => sum + wait, 0);
+  return kept;
+}
+
+export function computeStats(buckets: MatchBucket[], now: number, online: number): QueueStats {
+  let matchedLastHour = 0;
+  let waitMs = 0;
+  let recentUsers = 0;
+
+  for (const bucket of buckets) {
+    if (bucket.minute <= now - HOUR_MS) continue;
+    matchedLastHour += bucket.users;
+    waitMs += bucket.waitMs;
+    if (bucket.minute > now - RATE_WINDOW_MS) recentUsers += bucket.users;
+  }
+
+  return {
+    online,
+    matchedLastHour,
+    usersPerMinute: recentUsers / (RATE_WINDOW_MS / MINUTE_MS),
+    averageWaitMs: matchedLastHour > 0 ? waitMs / matchedLastHour : null,
+  };
+}
+
+/**
+ * Seconds until `position` is likely matched: the people ahead of them
+ * at the recent match rate, or the average recent wait when nobody was
+ * matched lately. Rounded coarsely so it only changes now and then.
+ * Null when there's nothing to go on.
+ */
+export function estimateWaitSeconds(stats: QueueStats, position: number): number | null {
+  let ms: number;
+  if (stats.usersPerMinute > 0) {
+    ms = (position / stats.usersPerMinute) * MINUTE_MS;
+  } else if (stats.averageWaitMs !== null) {
+    ms = stats.averageWaitMs;
+  } else {
+    return null;
+  }
+
+  const seconds = ms / 1000;
+  if (seconds < 60) return Math.max(10, Math.ceil(seconds / 10) * 10);
+  if (seconds < 10 * 60) return Math.ceil(seconds / 60) * 60;
+  return Math.ceil(seconds / 300) * 300;
+}
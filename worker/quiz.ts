@@ -0,0 +1,137 @@
+/**
+ * Mindalike compatibility quiz
+ *
+ * Question sets live in D1 (`quiz_sets`, `quiz_questions`); answers are
+ * stored per wallet in `quiz_answers`. Two users' answers are compared
+ * question by question to produce a 0-100 compatibility score, which
+ * MatchingQueue uses to rank candidate pairs.
+ */
+
+import type { Env } from './index';
+
+export type QuestionKind = 'choice' | 'scale';
+
+export interface QuizQuestion {
+  id: number;
+  prompt: string;
+  kind: QuestionKind;
+  options: string[];
+}
+
+export interface Quiz {
+  id: number;
+  slug: string;
+  title: string;
+  questions: QuizQuestion[];
+}
+
+// question id → chosen option index
+export type QuizAnswers = Record<number, number>;
+
+export interface SharedAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface Compatibility {
+  // 0-100, or null when too few questions were answered by both
+  score: number | null;
+  sharedAnswers: SharedAnswer[];
+}
+
+// Fewer common answers than this are not enough to score a pair
+export const MIN_COMMON_ANSWERS = 3;
+
+export async function getActiveQuiz(env: Env): Promise<Quiz | null> {
+  const set = await env.DB.prepare(
+    'SELECT id, slug, title FROM quiz_sets WHERE active = 1 ORDER BY id DESC LIMIT 1'
+  ).first<{ id: number; slug: string; title: string }>();
+  if (!set) return null;
+
+  const { results } = await env.DB.prepare(
+    'SELECT id, prompt, kind, options FROM quiz_questions WHERE set_id = ? ORDER BY position'
+  ).bind(set.id).all<{ id: number; prompt: string; kind: QuestionKind; options: string }>();
+
+  return {
+    ...set,
+    questions: (results ?? []).map(row => ({
+      id: row.id,
+      prompt: row.prompt,
+      kind: row.kind,
+      options: JSON.parse(row.options) as string[],
+    })),
+  };
+}
+
+export async function getUserAnswers(env: Env, wallet: string, quiz: Quiz): Promise<QuizAnswers> {
+  const { results } = await env.DB.prepare(
+    `SELECT a.question_id, a.answer FROM quiz_answers a
+     JOIN quiz_questions q ON q.id = a.question_id
+     WHERE a.wallet_address = ? AND q.set_id = ?`
+  ).bind(wallet, quiz.id).all<{ question_id: number; answer: number }>();
+
+  const answers: QuizAnswers = {};
+  for (const row of results ?? []) {
+    answers[row.question_id] = row.answer;
+  }
+  return answers;
+}
+
+// Keep only answers to questions of this quiz with an in-range option
+export function sanitizeAnswers(quiz: Quiz, value: unknown): QuizAnswers {
+  const answers: QuizAnswers = {};
+  if (!value || typeof value !== 'object') return answers;
+
+  for (const question of quiz.questions) {
+    const answer = (value as Record<string, unknown>)[question.id];
+    if (typeof answer === 'number' && Number.isInteger(answer) && answer >= 0 && answer < question.options.length) {
+      answers[question.id] = answer;
+    }
+  }
+  return answers;
+}
+
+export async function saveUserAnswers(env: Env, wallet: string, answers: QuizAnswers): Promise<void> {
+  const statements = Object.entries(answers).map(([questionId, answer]) =>
+    env.DB.prepare(
+      `INSERT INTO quiz_answers (wallet_address, question_id, answer)
+       VALUES (?, ?, ?)
+       ON CONFLICT(wallet_address, question_id) DO UPDATE SET
+         answer = excluded.answer,
+         answered_at = CURRENT_TIMESTAMP`
+    ).bind(wallet, Number(questionId), answer)
+  );
+  if (statements.length > 0) {
+    await env.DB.batch(statements);
+  }
+}
+
+/**
+ * Per-question similarity averaged over the questions both answered.
+ * Choice questions count only exact agreement; scale questions give
+ * partial credit by distance along the scale.
+ */
+export function compareAnswers(quiz: Quiz, a: QuizAnswers, b: QuizAnswers): Compatibility {
+  let total = 0;
+  let common = 0;
+  const sharedAnswers: SharedAnswer[] = [];
+
+  for (const question of quiz.questions) {
+    const answerA = a[question.id];
+    const answerB = b[question.id];
+    if (answerA === undefined || answerB === undefined) continue;
+
+    common++;
+    if (answerA === answerB) {
+      total += 1;
+      sharedAnswers.push({ question: question.prompt, answer: question.options[answerA] });
+    } else if (question.kind === 'scale' && question.options.length > 1) {
+      total += 1 - Math.abs(answerA - answerB) / (question.options.length - 1);
+    }
+  }
+
+  return {
+    score: common >= MIN_COMMON_ANSWERS ? Math.round((total / common) * 100) : null,
+    sharedAnswers,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Event round pairing
+ *
+ * An event round pairs everyone waiting at once, best-ranked pairs first.
+ * Ranking every pair would be quadratic in the lobby, so each participant
+ * only ranks the ROUND_WINDOW participants after them in wait order, and
+ * the ROUND_WINDOW after them among those sharing each of their tags. A
+ * round then costs about (tags + 1) × ROUND_WINDOW rankings per
+ * participant. Whoever the ranked pairs leave over is paired with the
+ * best-ranked of the next ROUND_WINDOW left over.
+ */
+
+import type { QueueEntry } from './queue-order';
+
+export interface RoundEntry extends QueueEntry {
+  interests: readonly string[];
+}
+
+// Participants after each one, overall and per tag, that it is ranked against
+export const ROUND_WINDOW = 8;
+
+/**
+ * Pairs for a round out of `users`, oldest first. `rank` scores a pair,
+ * higher is better, or returns null if the two may not meet. Ties go to
+ * whoever has waited longest.
+ */
+export function findRoundPairs<T extends RoundEntry>(
+  users: readonly T[],
+  rank: (a: T, b: T) => number | null
+): [T, T][] {
+  // Indexes of the users with each tag, in wait order
+  const byTag = new Map<string, number[]>();
+  users.forEach((user, index) => {
+    for (const tag of user.interests) {
+      const indexes = byTag.get(tag) ?? [];
+      indexes.push(index);
+      byTag.set(tag, indexes);
+    }
+  });
+
+  const seen = new Set<number>();
+  const ranked: { i: number; j: number; rank: number }[] = [];
+  const consider = (i: number, j: number): void => {
+    const key = i * users.length + j;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const score = rank(users[i], users[j]);
+    if (score !== null) ranked.push({ i, j, rank: score });
+  };
+
+  for (let i = 0; i < users.length; i++) {
+    for (let j = i + 1; j < Math.min(users.length, i + 1 + ROUND_WINDOW); j++) consider(i, j);
+  }
+  for (const indexes of byTag.values()) {
+    for (let k = 0; k < indexes.length; k++) {
+      for (let l = k + 1; l < Math.min(indexes.length, k + 1 + ROUND_WINDOW); l++) consider(indexes[k], indexes[l]);
+    }
+  }
+  ranked.sort((x, y) => y.rank - x.rank || x.i - y.i || x.j - y.j);
+
+  const taken = new Set<number>();
+  const pairs: [T, T][] = [];
+  for (const { i, j } of ranked) {
+    if (taken.has(i) || taken.has(j)) continue;
+    taken.add(i);
+    taken.add(j);
+    pairs.push([users[i], users[j]]);
+  }
+
+  // Everyone whose candidates were all taken gets another chance
+  const left = users.map((_, index) => index).filter(index => !taken.has(index));
+  for (let k = 0; k < left.length; k++) {
+    if (taken.has(left[k])) continue;
+    let best = -1;
+    let bestRank = -Infinity;
+    for (let l = k + 1, tried = 0; l < left.length && tried < ROUND_WINDOW; l++) {
+      if (taken.has(left[l])) continue;
+      tried++;
+      const score = rank(users[left[k]], users[left[l]]);
+      if (score !== null && score > bestRank) {
+        best = left[l];
+        bestRank = score;
+      }
+    }
+    if (best < 0) continue;
+    taken.add(left[k]);
+    taken.add(best);
+    pairs.push([users[left[k]], users[best]]);
+  }
+  return pairs;
+}
@@ -0,0 +1,154 @@
+/**
+ * Reports, blocks and bans
+ *
+ * Everything here is keyed by World ID nullifier_hash rather than wallet,
+ * so a human cannot shed a block or a ban by signing in with a new wallet.
+ * Reports and blocks always refer to a row in `matches`, which is how the
+ * server knows who the partner was without trusting the client.
+ *
+ * Enough distinct reporters within REPORT_WINDOW_MS earn a temporary ban;
+ * a human who keeps getting banned is banned permanently.
+ */
+
+import type { Env } from './index';
+import { errorMessage, type ServerMessage } from '../lib/protocol';
+
+export const REPORT_REASONS = ['harassment', 'spam', 'inappropriate', 'impersonation', 'underage', 'other'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const MAX_REPORT_DETAILS = 500;
+
+export interface Ban {
+  reason: string;
+  // null for a permanent ban
+  expiresAt: number | null;
+}
+
+// Distinct reporters needed within the window to trigger a ban
+const REPORT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const REPORTS_BEFORE_BAN = 3;
+
+const TEMP_BAN_MS = 24 * 60 * 60 * 1000;
+// Temporary bans served before the next one becomes permanent
+const TEMP_BANS_BEFORE_PERMANENT = 2;
+
+const BLOCK_LOOKUP_CHUNK = 40;
+
+export function isReportReason(value: unknown): value is ReportReason {
+  return typeof value === 'string' && (REPORT_REASONS as readonly string[]).includes(value);
+}
+
+// The other party of a match, or null if `nullifier` was not part of it
+export async function getMatchPartner(env: Env, matchId: number, nullifier: string): Promise<string | null> {
+  const row = await env.DB.prepare(
+    'SELECT nullifier_a, nullifier_b FROM matches WHERE id = ? AND (nullifier_a = ? OR nullifier_b = ?)'
+  ).bind(matchId, nullifier, nullifier).first<{ nullifier_a: string; nullifier_b: string }>();
+
+  if (!row) return null;
+  return row.nullifier_a === nullifier ? row.nullifier_b : row.nullifier_a;
+}
+
+export async function blockUser(env: Env, blocker: string, blocked: string): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO blocks (blocker_nullifier, blocked_nullifier, created_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT(blocker_nullifier, blocked_nullifier) DO NOTHING`
+  ).bind(blocker, blocked, Date.now()).run();
+}
+
+// Humans each of the given humans must not be paired with, in either direction
+export async function getBlockedPartners(env: Env, nullifiers: string[]): Promise<Map<string, Set<string>>> {
+  const blocked = new Map<string, Set<string>>();
+  for (const nullifier of nullifiers) blocked.set(nullifier, new Set());
+  if (nullifiers.length === 0) return blocked;
+
+  for (let i = 0; i < nullifiers.length; i += BLOCK_LOOKUP_CHUNK) {
+    const chunk = nullifiers.slice(i, i + BLOCK_LOOKUP_CHUNK);
+    const placeholders = chunk.map(() => '?').join(', ');
+    const { results } = await env.DB.prepare(
+      `SELECT blocker_nullifier, blocked_nullifier FROM blocks
+       WHERE blocker_nullifier IN (${placeholders}) OR blocked_nullifier IN (${placeholders})`
+    ).bind(...chunk, ...chunk).all<{ blocker_nullifier: string; blocked_nullifier: string }>();
+
+    for (const row of results ?? []) {
+      blocked.get(row.blocker_nullifier)?.add(row.blocked_nullifier);
+      blocked.get(row.blocked_nullifier)?.add(row.blocker_nullifier);
+    }
+  }
+
+  return blocked;
+}
+
+/**
+ * Record a report and block the reported human for the reporter.
+ * Reporting the same match twice is a no-op. Returns the ban issued
+ * as a consequence, if any.
+ */
+export async function submitReport(
+  env: Env,
+  report: { reporter: string; reported: string; matchId: number; reason: ReportReason; details: string | null }
+): Promise<Ban | null> {
+  const now = Date.now();
+  const [inserted] = await env.DB.batch([
+    env.DB.prepare(
+      `INSERT INTO reports (reporter_nullifier, reported_nullifier, match_id, reason, details, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(match_id, reporter_nullifier) DO NOTHING`
+    ).bind(report.reporter, report.reported, report.matchId, report.reason, report.details, now),
+    env.DB.prepare(
+      `INSERT INTO blocks (blocker_nullifier, blocked_nullifier, created_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(blocker_nullifier, blocked_nullifier) DO NOTHING`
+    ).bind(report.reporter, report.reported, now),
+  ]);
+
+  if (!inserted.meta.changes) return null;
+  return applyAutomaticBan(env, report.reported, now);
+}
+
+export async function getActiveBan(env: Env, nullifier: string): Promise<Ban | null> {
+  const row = await env.DB.prepare(
+    `SELECT reason, expires_at FROM bans
+     WHERE nullifier_hash = ? AND (expires_at IS NULL OR expires_at > ?)
+     ORDER BY expires_at IS NULL DESC, expires_at DESC
+     LIMIT 1`
+  ).bind(nullifier, Date.now()).first<{ reason: string; expires_at: number | null }>();
+
+  return row ? { reason: row.reason, expiresAt: row.expires_at } : null;
+}
+
+// The error a banned human's socket gets before it is closed
+export function banMessage(ban: Ban): ServerMessage {
+  return errorMessage('banned', {
+    message: ban.expiresAt === null
+      ? 'This account has been permanently banned'
+      : 'This account is temporarily banned',
+    expiresAt: ban.expiresAt,
+  });
+}
+
+// Reports only count once: those filed before the latest ban are not reused
+async function applyAutomaticBan(env: Env, nullifier: string, now: number): Promise<Ban | null> {
+  const history = await env.DB.prepare(
+    'SELECT COUNT(*) AS bans, MAX(created_at) AS last_ban_at FROM bans WHERE nullifier_hash = ?'
+  ).bind(nullifier).first<{ bans: number; last_ban_at: number | null }>();
+
+  const since = Math.max(now - REPORT_WINDOW_MS, history?.last_ban_at ?? 0);
+  const reports = await env.DB.prepare(
+    `SELECT COUNT(DISTINCT reporter_nullifier) AS reporters FROM reports
+     WHERE reported_nullifier = ? AND created_at > ?`
+  ).bind(nullifier, since).first<{ reporters: number }>();
+
+  if ((reports?.reporters ?? 0) < REPORTS_BEFORE_BAN) return null;
+
+  const ban: Ban = (history?.bans ?? 0) >= TEMP_BANS_BEFORE_PERMANENT
+    ? { reason: 'repeated_reports', expiresAt: null }
+    : { reason: 'reports', expiresAt: now + TEMP_BAN_MS };
+
+  await env.DB.prepare(
+    'INSERT INTO bans (nullifier_hash, reason, expires_at, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(nullifier, ban.reason, ban.expiresAt, now).run();
+
+  return ban;
+}
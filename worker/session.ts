@@ -0,0 +1,134 @@
+/**
+ * Signed session tokens
+ *
+ * Issued after a successful SIWE verification and carried either in the
+ * HttpOnly `mindalike_session` cookie or as an `Authorization: Bearer`
+ * header. Tokens are `base64url(payload).base64url(HMAC-SHA256(payload))`.
+ * Each carries a random session id, so logging out can revoke it on the
+ * server before it expires (see revoked_sessions). Refreshing revokes the
+ * old token too, and never extends a session past SESSION_MAX_AGE_SECONDS
+ * from the sign-in it started with.
+ */
+
+export const SESSION_COOKIE = 'mindalike_session';
+
+// Sessions last a day; /api/session/refresh extends a still-valid one
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// However often it is refreshed, a session ends this long after sign-in
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export interface Session {
+  // Random id, the key a revocation is stored under
+  sid: string;
+  wallet: string;
+  username: string;
+  verified: boolean;
+  nullifierHash: string | null;
+  // Sign-in this session descends from; kept across refreshes
+  authAt: number;
+  // Issued-at / expiry, unix seconds
+  iat: number;
+  exp: number;
+}
+
+export type SessionClaims = Omit<Session, 'sid' | 'authAt' | 'iat' | 'exp'>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// `authAt` is the sign-in being refreshed, now for a new one
+export async function signSession(
+  claims: SessionClaims,
+  secret: string,
+  authAt = Math.floor(Date.now() / 1000)
+): Promise<{ token: string; session: Session }> {
+  const now = Math.floor(Date.now() / 1000);
+  const session: Session = {
+    ...claims,
+    sid: crypto.randomUUID(),
+    authAt,
+    iat: now,
+    exp: Math.min(now + SESSION_TTL_SECONDS, authAt + SESSION_MAX_AGE_SECONDS),
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const key = await importKey(secret);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body)));
+  return { token: `${body}.${toBase64Url(signature)}`, session };
+}
+
+export async function verifySessionToken(token: string, secret: string): Promise<Session | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const key = await importKey(secret);
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const session = JSON.parse(decoder.decode(fromBase64Url(body))) as Session;
+    // Tokens without an id or sign-in time predate revocation and the
+    // lifetime cap
+    if (typeof session.sid !== 'string' || typeof session.authAt !== 'number') return null;
+    if (typeof session.wallet !== 'string' || typeof session.exp !== 'number') return null;
+    if (session.exp <= Math.floor(Date.now() / 1000)) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Read the token from the bearer header first, then the session cookie
+export function getSessionToken(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return getCookie(request, SESSION_COOKIE);
+}
+
+export async function getSession(request: Request, secret: string): Promise<Session | null> {
+  const token = getSessionToken(request);
+  if (!token || !secret) return null;
+  return verifySessionToken(token, secret);
+}
+
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return null;
+}
+
+export function sessionCookie(token: string, maxAge = SESSION_TTL_SECONDS): string {
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${maxAge}`;
+}
+
+export function clearSessionCookie(): string {
+  return sessionCookie('', 0);
+}
@@ -0,0 +1,111 @@
+/**
+ * Matching queue shards
+ *
+ * Each MatchingQueue instance serves one shard, named `<language>:<region>`
+ * (e.g. `es:amer`). The language comes from the user's profile, falling
+ * back to Accept-Language; the coarse region from `request.cf.continent`.
+ * Users whose language isn't in LANGUAGE_CATALOG, and users who waited
+ * longer than the fallback delay in their shard, use the global pool.
+ */
+
+import type { Env } from './index';
+
+export interface Language {
+  code: string;
+  label: string;
+}
+
+export const LANGUAGE_CATALOG: readonly Language[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'pt', label: 'Português' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'id', label: 'Bahasa Indonesia' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+];
+
+export const REGIONS = ['amer', 'emea', 'apac'] as const;
+
+export type Region = typeof REGIONS[number];
+
+// The pre-sharding queue name, kept so the global pool keeps its state
+export const GLOBAL_SHARD = 'global';
+const GLOBAL_QUEUE_NAME = 'global-queue';
+
+const CONTINENT_REGIONS: Record<string, Region> = {
+  NA: 'amer',
+  SA: 'amer',
+  EU: 'emea',
+  AF: 'emea',
+  AS: 'apac',
+  OC: 'apac',
+};
+
+// Default time in a shard before a user is sent to the global pool
+const DEFAULT_FALLBACK_SECONDS = 60;
+
+const LANGUAGE_CODES = new Set(LANGUAGE_CATALOG.map(language => language.code));
+
+export function isLanguage(value: unknown): value is string {
+  return typeof value === 'string' && LANGUAGE_CODES.has(value);
+}
+
+// First supported primary subtag in an Accept-Language header, by weight
+export function languageFromHeader(header: string | null): string | null {
+  if (!header) return null;
+  const ranked = header.split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { code: tag.split('-')[0].toLowerCase(), weight: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .sort((a, b) => b.weight - a.weight);
+  return ranked.find(entry => LANGUAGE_CODES.has(entry.code))?.code ?? null;
+}
+
+export function regionFor(request: Request): Region | null {
+  const continent = request.cf?.continent;
+  return typeof continent === 'string' ? CONTINENT_REGIONS[continent] ?? null : null;
+}
+
+export function getFallbackMs(env: Env): number {
+  const seconds = Number(env.QUEUE_FALLBACK_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_FALLBACK_SECONDS) * 1000;
+}
+
+export async function getUserLanguage(env: Env, wallet: string): Promise<string | null> {
+  const row = await env.DB.prepare(
+    'SELECT language FROM users WHERE wallet_address = ?'
+  ).bind(wallet).first<{ language: string | null }>();
+  return isLanguage(row?.language) ? row.language : null;
+}
+
+export async function saveUserLanguage(env: Env, wallet: string, language: string): Promise<void> {
+  await env.DB.prepare(
+    'UPDATE users SET language = ? WHERE wallet_address = ?'
+  ).bind(language, wallet).run();
+}
+
+// Shard for a connecting user; `language` is the profile language, if any
+export function resolveShard(request: Request, language: string | null): string {
+  const lang = language ?? languageFromHeader(request.headers.get('Accept-Language'));
+  const region = regionFor(request);
+  if (!lang || !region) return GLOBAL_SHARD;
+  return `${lang}:${region}`;
+}
+
+// Every shard a queue can exist for, global pool first
+export function allShards(): string[] {
+  const shards = [GLOBAL_SHARD];
+  for (const language of LANGUAGE_CATALOG) {
+    for (const region of REGIONS) shards.push(`${language.code}:${region}`);
+  }
+  return shards;
+}
+
+export function getQueue(env: Env, shard: string): DurableObjectStub {
+  const name = shard === GLOBAL_SHARD ? GLOBAL_QUEUE_NAME : `queue:${shard}`;
+  return env.MATCHING_QUEUE.get(env.MATCHING_QUEUE.idFromName(name));
+}
@@ -0,0 +1,136 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) verification for MiniKit wallet auth
+ *
+ * World App accounts are Safe smart wallets, so a plain ecrecover is not
+ * enough: the signature is checked through a World Chain client, which
+ * covers EOA, ERC-1271 and ERC-6492 (counterfactual) signers alike.
+ */
+
+import { createPublicClient, http, isAddress, getAddress, type Hex } from 'viem';
+import { worldchain } from 'viem/chains';
+import { parseSiweMessage } from 'viem/siwe';
+
+// Chain the SIWE message must be bound to (World Chain mainnet)
+export const WORLD_CHAIN_ID = worldchain.id;
+
+// Tolerated clock drift when checking issued-at / not-before
+const CLOCK_SKEW_MS = 60 * 1000;
+
+// Wallet auth success payload as sent by MiniKit.commandsAsync.walletAuth
+export interface WalletAuthPayload {
+  status: 'success';
+  message: string;
+  signature: string;
+  address: string;
+  version?: number;
+}
+
+export interface SiweExpectations {
+  // Host the mini app is served from, e.g. world.mind-alike.com
+  domain: string;
+  // Origin the message must point at, e.g. https://world.mind-alike.com
+  uri: string;
+  // Nonce issued by /api/nonce for this sign-in attempt
+  nonce: string;
+  // Optional RPC override (defaults to the public World Chain endpoint)
+  rpcUrl?: string;
+  now?: Date;
+}
+
+export type SiweVerificationResult =
+  | { ok: true; address: string; expiresAt: number | null }
+  | { ok: false; reason: string };
+
+function originOf(uri: string): string | null {
+  try {
+    return new URL(uri).origin;
+  } catch {
+    return null;
+  }
+}
+
+function isWalletAuthPayload(payload: unknown): payload is WalletAuthPayload {
+  if (!payload || typeof payload !== 'object') return false;
+  const p = payload as Record<string, unknown>;
+  return (
+    p.status === 'success' &&
+    typeof p.message === 'string' &&
+    typeof p.signature === 'string' &&
+    typeof p.address === 'string'
+  );
+}
+
+/**
+ * Parse and validate a SIWE message, then verify that its signature was
+ * produced by the address it names. Never trusts `payload.address` on its
+ * own: the claimed address must match the message and the signer.
+ */
+export async function verifySiweMessage(
+  payload: unknown,
+  expected: SiweExpectations
+): Promise<SiweVerificationResult> {
+  if (!isWalletAuthPayload(payload)) {
+    return { ok: false, reason: 'Malformed wallet auth payload' };
+  }
+
+  const message = parseSiweMessage(payload.message);
+  const now = (expected.now ?? new Date()).getTime();
+
+  if (!message.address || !isAddress(message.address)) {
+    return { ok: false, reason: 'Message has no valid address' };
+  }
+  if (!isAddress(payload.address) || getAddress(payload.address) !== getAddress(message.address)) {
+    return { ok: false, reason: 'Address does not match signed message' };
+  }
+  if (message.version !== '1') {
+    return { ok: false, reason: 'Unsupported SIWE version' };
+  }
+  if (message.domain !== expected.domain) {
+    return { ok: false, reason: 'Domain mismatch' };
+  }
+  if (!message.uri || originOf(message.uri) !== originOf(expected.uri)) {
+    return { ok: false, reason: 'URI mismatch' };
+  }
+  if (message.chainId !== WORLD_CHAIN_ID) {
+    return { ok: false, reason: 'Chain ID mismatch' };
+  }
+  if (message.nonce !== expected.nonce) {
+    return { ok: false, reason: 'Nonce mismatch' };
+  }
+  if (message.issuedAt && message.issuedAt.getTime() > now + CLOCK_SKEW_MS) {
+    return { ok: false, reason: 'Message issued in the future' };
+  }
+  if (message.expirationTime && message.expirationTime.getTime() <= now) {
+    return { ok: false, reason: 'Message expired' };
+  }
+  if (message.notBefore && message.notBefore.getTime() > now + CLOCK_SKEW_MS) {
+    return { ok: false, reason: 'Message not yet valid' };
+  }
+
+  const client = createPublicClient({
+    chain: worldchain,
+    transport: http(expected.rpcUrl),
+  });
+
+  let isValid = false;
+  try {
+    isValid = await client.verifyMessage({
+      address: message.address,
+      message: payload.message,
+      signature: payload.signature as Hex,
+    });
+  } catch (error) {
+    console.error('SIWE signature check failed:', error);
+    return { ok: false, reason: 'Signature verification failed' };
+  }
+
+  if (!isValid) {
+    return { ok: false, reason: 'Invalid signature' };
+  }
+
+  return {
+    ok: true,
+    address: message.address.toLowerCase(),
+    expiresAt: message.expirationTime ? message.expirationTime.getTime() : null,
+  };
+}
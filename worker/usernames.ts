@@ -0,0 +1,30 @@
+/**
+ * World App username lookup
+ *
+ * Usernames are resolved on the server from the verified wallet, so a
+ * client cannot claim someone else's name.
+ */
+
+const USERNAMES_API_URL = 'https://usernames.worldcoin.org/api/v1';
+
+interface UsernameRecord {
+  username: string;
+  address: string;
+  profile_picture_url?: string | null;
+}
+
+// Returns null when the wallet has no username or the lookup fails
+export async function resolveUsername(wallet: string): Promise<string | null> {
+  try {
+    const res = await fetch(`${USERNAMES_API_URL}/${wallet.toLowerCase()}`);
+    if (!res.ok) return null;
+
+    const record = await res.json() as Partial<UsernameRecord>;
+    if (typeof record.username !== 'string' || !record.username) return null;
+    if (typeof record.address === 'string' && record.address.toLowerCase() !== wallet.toLowerCase()) return null;
+    return record.username;
+  } catch (error) {
+    console.error('Username lookup failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * World ID proof verification
+ *
+ * Proofs coming from MiniKit.commandsAsync.verify are only trusted once the
+ * Developer Portal confirms them. The verifier is an interface so local
+ * development and tests can swap in a stand-in for the live portal.
+ */
+
+import { isHex, keccak256, toHex } from 'viem';
+
+const DEFAULT_PORTAL_URL = 'https://developer.worldcoin.org';
+
+export type VerificationLevel = 'orb' | 'device' | 'document' | 'secure_document';
+
+// Proof fields returned by MiniKit's verify command
+export interface WorldIdProof {
+  nullifier_hash: string;
+  merkle_root: string;
+  proof: string;
+  verification_level: VerificationLevel;
+}
+
+export interface WorldIdVerifyRequest {
+  proof: WorldIdProof;
+  action: string;
+  // Raw signal the proof must be bound to (the authenticated wallet)
+  signal: string;
+}
+
+export type WorldIdVerifyResult =
+  | { ok: true; nullifierHash: string; verificationLevel: VerificationLevel }
+  | { ok: false; code: string; detail: string };
+
+export interface WorldIdVerifier {
+  verify(request: WorldIdVerifyRequest): Promise<WorldIdVerifyResult>;
+}
+
+/**
+ * Hash a signal the same way IDKit does before it becomes a circuit input:
+ * keccak256 of the bytes, shifted right by 8 bits to fit the field.
+ */
+export function hashSignal(signal: string): string {
+  const bytes = isHex(signal) ? signal : toHex(signal);
+  const hash = BigInt(keccak256(bytes)) >> BigInt(8);
+  return `0x${hash.toString(16).padStart(64, '0')}`;
+}
+
+export function isWorldIdProof(value: unknown): value is WorldIdProof {
+  if (!value || typeof value !== 'object') return false;
+  const p = value as Record<string, unknown>;
+  return (
+    typeof p.nullifier_hash === 'string' &&
+    typeof p.merkle_root === 'string' &&
+    typeof p.proof === 'string' &&
+    typeof p.verification_level === 'string'
+  );
+}
+
+/**
+ * Verifies proofs against the Developer Portal `/api/v2/verify/{app_id}`
+ * endpoint. `baseUrl` can point at a local stand-in.
+ */
+export class PortalWorldIdVerifier implements WorldIdVerifier {
+  constructor(
+    private appId: string,
+    private baseUrl: string = DEFAULT_PORTAL_URL
+  ) {}
+
+  async verify({ proof, action, signal }: WorldIdVerifyRequest): Promise<WorldIdVerifyResult> {
+    const res = await fetch(`${this.baseUrl}/api/v2/verify/${this.appId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        nullifier_hash: proof.nullifier_hash,
+        merkle_root: proof.merkle_root,
+        proof: proof.proof,
+        verification_level: proof.verification_level,
+        action,
+        signal_hash: hashSignal(signal),
+      }),
+    });
+
+    if (res.ok) {
+      return {
+        ok: true,
+        nullifierHash: proof.nullifier_hash,
+        verificationLevel: proof.verification_level,
+      };
+    }
+
+    const body = await res.json().catch(() => ({})) as { code?: string; detail?: string };
+    return {
+      ok: false,
+      code: body.code || 'verification_failed',
+      detail: body.detail || `Developer Portal returned ${res.status}`,
+    };
+  }
+}
+
+/**
+ * Build the verifier for this environment. `WORLD_ID_VERIFY_URL` overrides
+ * the portal base URL (e.g. a local mock during tests).
+ */
+export function createWorldIdVerifier(env: { WORLD_APP_ID: string; WORLD_ID_VERIFY_URL?: string }): WorldIdVerifier {
+  return new PortalWorldIdVerifier(env.WORLD_APP_ID, env.WORLD_ID_VERIFY_URL || DEFAULT_PORTAL_URL);
+}